@@ -0,0 +1,192 @@
+/**
+ * Anthropic Adapter
+ *
+ * Claude models via the Anthropic Messages API, translated to and from
+ * the OpenAI chat completions format. Pricing from Marketplace.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import type {
+  ChatRequest,
+  CompletionResult,
+  StreamChunk,
+  UpstreamAdapter,
+  UpstreamModel,
+  UpstreamPrice,
+} from '../types.js';
+import { resolveMarketplacePricing } from './marketplace.js';
+
+export interface AnthropicAdapterOptions {
+  apiKey: string;
+  marketplaceUrl: string;
+}
+
+/** Anthropic requires max_tokens */
+const DEFAULT_MAX_TOKENS = 4096;
+
+/**
+ * Get default pricing based on model family (fallback if not in Marketplace)
+ */
+function getDefaultPrice(modelId: string): UpstreamPrice {
+  // Claude pricing tiers based on model family
+  if (modelId.includes('opus')) return { inputPerM: 15.00, outputPerM: 75.00 };
+  if (modelId.includes('sonnet')) return { inputPerM: 3.00, outputPerM: 15.00 };
+  if (modelId.includes('haiku')) return { inputPerM: 0.25, outputPerM: 1.25 };
+  // Default to sonnet pricing
+  return { inputPerM: 3.00, outputPerM: 15.00 };
+}
+
+/**
+ * Convert OpenAI-style messages to Anthropic format
+ */
+function convertMessages(openaiMessages: any[]): { system?: string; messages: any[] } {
+  let system: string | undefined;
+  const messages: any[] = [];
+
+  for (const msg of openaiMessages) {
+    if (msg.role === 'system') {
+      // Anthropic uses system as a separate parameter
+      system = (system || '') + msg.content + '\n';
+    } else {
+      messages.push({
+        role: msg.role === 'assistant' ? 'assistant' : 'user',
+        content: msg.content,
+      });
+    }
+  }
+
+  return { system: system?.trim(), messages };
+}
+
+/**
+ * Convert Anthropic response to OpenAI format
+ */
+function convertResponse(anthropicResponse: any, model: string): any {
+  const content = anthropicResponse.content
+    .filter((block: any) => block.type === 'text')
+    .map((block: any) => block.text)
+    .join('');
+
+  return {
+    id: anthropicResponse.id,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model: model,
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: 'assistant',
+          content: content,
+        },
+        finish_reason: anthropicResponse.stop_reason === 'end_turn' ? 'stop' : anthropicResponse.stop_reason,
+      },
+    ],
+    usage: {
+      prompt_tokens: anthropicResponse.usage?.input_tokens || 0,
+      completion_tokens: anthropicResponse.usage?.output_tokens || 0,
+      total_tokens: (anthropicResponse.usage?.input_tokens || 0) + (anthropicResponse.usage?.output_tokens || 0),
+    },
+  };
+}
+
+/**
+ * Build an OpenAI-compatible SSE chunk
+ */
+function buildChunk(model: string, delta: { content?: string }, finishReason: string | null): any {
+  return {
+    id: 'chatcmpl-' + Date.now(),
+    object: 'chat.completion.chunk',
+    created: Math.floor(Date.now() / 1000),
+    model: model,
+    choices: [{
+      index: 0,
+      delta,
+      finish_reason: finishReason,
+    }],
+  };
+}
+
+export class AnthropicAdapter implements UpstreamAdapter {
+  readonly id = 'anthropic';
+  readonly name = 'Anthropic';
+  private client: Anthropic;
+  private apiKey: string;
+  private marketplaceUrl: string;
+
+  constructor(options: AnthropicAdapterOptions) {
+    this.client = new Anthropic({ apiKey: options.apiKey });
+    this.apiKey = options.apiKey;
+    this.marketplaceUrl = options.marketplaceUrl;
+  }
+
+  async listModels(): Promise<UpstreamModel[]> {
+    const response = await fetch('https://api.anthropic.com/v1/models', {
+      headers: { 'x-api-key': this.apiKey, 'anthropic-version': '2023-06-01' },
+    });
+    if (!response.ok) throw new Error(`Anthropic API error: ${response.status}`);
+    const data = await response.json() as { data?: Array<{ id: string; display_name?: string }> };
+    const models = data.data || [];
+    console.log(`  API returned ${models.length} models: ${models.map(m => m.id).join(', ')}`);
+    return models.map(m => ({ id: m.id, name: m.display_name }));
+  }
+
+  fetchPricing(models: UpstreamModel[]): Promise<Map<string, UpstreamPrice>> {
+    return resolveMarketplacePricing(this.marketplaceUrl, 'anthropic', models, getDefaultPrice);
+  }
+
+  async complete(request: ChatRequest): Promise<CompletionResult> {
+    const { system, messages } = convertMessages(request.messages);
+
+    const completion = await this.client.messages.create({
+      model: request.model,
+      max_tokens: request.max_tokens || DEFAULT_MAX_TOKENS,
+      system: system,
+      messages: messages,
+    });
+
+    return {
+      response: convertResponse(completion, request.model),
+      usage: completion.usage
+        ? { inputTokens: completion.usage.input_tokens, outputTokens: completion.usage.output_tokens }
+        : null,
+    };
+  }
+
+  async *stream(request: ChatRequest): AsyncIterable<StreamChunk> {
+    const { system, messages } = convertMessages(request.messages);
+
+    const stream = await this.client.messages.create({
+      model: request.model,
+      max_tokens: request.max_tokens || DEFAULT_MAX_TOKENS,
+      system: system,
+      messages: messages,
+      stream: true,
+    });
+
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    for await (const event of stream) {
+      if (event.type === 'message_start') {
+        inputTokens = event.message.usage?.input_tokens || 0;
+        outputTokens = event.message.usage?.output_tokens || 0;
+      } else if (event.type === 'message_delta') {
+        outputTokens = event.usage?.output_tokens || outputTokens;
+      } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+        // Send as OpenAI-compatible SSE
+        yield {
+          chunk: buildChunk(request.model, { content: event.delta.text }, null),
+          text: event.delta.text,
+        };
+      }
+    }
+
+    // Final chunk carries the usage reported by Anthropic
+    yield {
+      chunk: buildChunk(request.model, {}, 'stop'),
+      text: '',
+      usage: { inputTokens, outputTokens },
+    };
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Chutes Adapter
+ *
+ * Bittensor-focused models via Chutes API at llm.chutes.ai.
+ * Auto-discovers available models and pricing.
+ */
+
+import type { UpstreamModel, UpstreamPrice } from '../types.js';
+import { OpenAICompatibleAdapter } from './openai-compatible.js';
+
+export interface ChutesAdapterOptions {
+  apiKey: string;
+}
+
+/**
+ * Chutes model info from API
+ */
+export interface ChutesModel {
+  id: string;
+  name: string;
+  input_price: number;  // Price per million tokens
+  output_price: number;
+  context_length?: number;
+}
+
+/**
+ * Default models as fallback if API doesn't return pricing
+ * Based on https://llm.chutes.ai available models
+ */
+function getDefaultModels(): ChutesModel[] {
+  return [
+    // DeepSeek models
+    { id: 'deepseek-ai/DeepSeek-R1', name: 'DeepSeek R1', input_price: 0.30, output_price: 1.00 },
+    { id: 'deepseek-ai/DeepSeek-V3', name: 'DeepSeek V3', input_price: 0.30, output_price: 1.00 },
+    { id: 'deepseek-ai/DeepSeek-V3.1', name: 'DeepSeek V3.1', input_price: 0.20, output_price: 0.80 },
+    { id: 'deepseek-ai/DeepSeek-R1-Distill-Llama-70B', name: 'DeepSeek R1 Distill 70B', input_price: 0.03, output_price: 0.13 },
+    // Qwen models
+    { id: 'Qwen/Qwen2.5-72B-Instruct', name: 'Qwen 2.5 72B', input_price: 0.07, output_price: 0.26 },
+    { id: 'Qwen/Qwen3-235B-A22B', name: 'Qwen 3 235B', input_price: 0.30, output_price: 1.00 },
+    { id: 'Qwen/Qwen3-32B', name: 'Qwen 3 32B', input_price: 0.05, output_price: 0.20 },
+    { id: 'Qwen/Qwen2.5-Coder-32B-Instruct', name: 'Qwen 2.5 Coder 32B', input_price: 0.04, output_price: 0.16 },
+    // Mistral models
+    { id: 'unsloth/Mistral-Small-24B-Instruct-2501', name: 'Mistral Small 24B', input_price: 0.05, output_price: 0.22 },
+    { id: 'unsloth/Mistral-Nemo-Instruct-2407', name: 'Mistral Nemo', input_price: 0.03, output_price: 0.11 },
+    // Hermes models
+    { id: 'NousResearch/Hermes-4-70B', name: 'Hermes 4 70B', input_price: 0.11, output_price: 0.38 },
+    // Gemma models
+    { id: 'unsloth/gemma-3-27b-it', name: 'Gemma 3 27B', input_price: 0.13, output_price: 0.52 },
+  ];
+}
+
+export class ChutesAdapter extends OpenAICompatibleAdapter {
+  readonly id = 'chutes';
+  readonly name = 'Chutes';
+  private apiKey: string;
+  private models: ChutesModel[] = [];
+
+  constructor(options: ChutesAdapterOptions) {
+    // Chutes uses OpenAI-compatible API at llm.chutes.ai
+    super({ apiKey: options.apiKey, baseURL: 'https://llm.chutes.ai/v1' });
+    this.apiKey = options.apiKey;
+  }
+
+  async listModels(): Promise<UpstreamModel[]> {
+    let models = await this.fetchChutesModels();
+
+    // Use defaults if API returned empty
+    if (models.length === 0) {
+      console.warn('⚠️ No models returned from Chutes API, using defaults');
+      models = getDefaultModels();
+    }
+
+    this.models = models;
+    return models.map(m => ({
+      id: m.id,
+      name: m.name,
+      contextLength: m.context_length,
+    }));
+  }
+
+  async fetchPricing(models: UpstreamModel[]): Promise<Map<string, UpstreamPrice>> {
+    const wanted = new Set(models.map(m => m.id));
+    const prices = new Map<string, UpstreamPrice>();
+
+    for (const model of this.models) {
+      if (!wanted.has(model.id)) continue;
+      prices.set(model.id, { inputPerM: model.input_price, outputPerM: model.output_price });
+      console.log(`  ${model.id}: $${model.input_price}/$${model.output_price} per M`);
+    }
+
+    return prices;
+  }
+
+  /**
+   * Fetch models from Chutes LLM API
+   * Endpoint: https://llm.chutes.ai/v1/models
+   */
+  private async fetchChutesModels(): Promise<ChutesModel[]> {
+    try {
+      console.log('  Fetching from https://llm.chutes.ai/v1/models...');
+
+      const response = await fetch('https://llm.chutes.ai/v1/models', {
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`  Chutes API error: ${response.status} - ${errorText}`);
+        throw new Error(`Chutes API error: ${response.status}`);
+      }
+
+      const data = await response.json() as { data?: any[] };
+      console.log(`  API returned ${data.data?.length || 0} models`);
+
+      // Map to our format with pricing from model metadata
+      return (data.data || []).map((m: any) => {
+        // Chutes pricing is per 1M tokens
+        const inputPrice = m.pricing?.input || m.pricing?.prompt || 0.10;
+        const outputPrice = m.pricing?.output || m.pricing?.completion || 0.30;
+
+        return {
+          id: m.id,
+          name: m.id.split('/').pop() || m.id,
+          input_price: inputPrice,
+          output_price: outputPrice,
+          context_length: m.context_length || 32000,
+        };
+      });
+    } catch (error) {
+      console.error('Failed to fetch Chutes models:', error);
+      console.log('  Using fallback models...');
+      return getDefaultModels();
+    }
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Marketplace Pricing
+ *
+ * Handshake58 publishes reference prices for backends whose APIs
+ * do not expose pricing (OpenAI, Anthropic, xAI).
+ */
+
+import type { UpstreamModel, UpstreamPrice } from '../types.js';
+
+/**
+ * Fetch pricing from Marketplace
+ */
+export async function fetchMarketplacePricing(marketplaceUrl: string, provider: string): Promise<Record<string, UpstreamPrice>> {
+  const response = await fetch(`${marketplaceUrl}/api/directory/pricing?provider=${provider}`);
+  if (!response.ok) throw new Error(`Marketplace error: ${response.status}`);
+  return response.json() as Promise<Record<string, UpstreamPrice>>;
+}
+
+/**
+ * Marketplace prices for the given models, falling back to model family defaults
+ */
+export async function resolveMarketplacePricing(
+  marketplaceUrl: string,
+  provider: string,
+  models: UpstreamModel[],
+  getDefaultPrice: (modelId: string) => UpstreamPrice
+): Promise<Map<string, UpstreamPrice>> {
+  console.log('Fetching pricing from Marketplace...');
+  const pricing = await fetchMarketplacePricing(marketplaceUrl, provider);
+  console.log(`  Marketplace has ${Object.keys(pricing).length} prices configured`);
+
+  const prices = new Map<string, UpstreamPrice>();
+  for (const model of models) {
+    const usedFallback = !pricing[model.id];
+    const price = pricing[model.id] ?? getDefaultPrice(model.id);
+    prices.set(model.id, price);
+    console.log(`  ${model.id}: $${price.inputPerM}/${price.outputPerM} per M ${usedFallback ? '(fallback)' : '✓'}`);
+  }
+  return prices;
+}
@@ -0,0 +1,65 @@
+/**
+ * OpenAI-Compatible Adapter
+ *
+ * Shared completion and streaming for backends that speak the
+ * OpenAI chat completions API (OpenAI, xAI, OpenRouter, Chutes).
+ */
+
+import OpenAI, { type ClientOptions } from 'openai';
+import type {
+  ChatRequest,
+  CompletionResult,
+  StreamChunk,
+  UpstreamAdapter,
+  UpstreamModel,
+  UpstreamPrice,
+} from '../types.js';
+
+export abstract class OpenAICompatibleAdapter implements UpstreamAdapter {
+  abstract readonly id: string;
+  abstract readonly name: string;
+  protected client: OpenAI;
+
+  constructor(options: ClientOptions) {
+    this.client = new OpenAI(options);
+  }
+
+  abstract listModels(): Promise<UpstreamModel[]>;
+  abstract fetchPricing(models: UpstreamModel[]): Promise<Map<string, UpstreamPrice>>;
+
+  async complete(request: ChatRequest): Promise<CompletionResult> {
+    const completion = await this.client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      max_tokens: request.max_tokens,
+    });
+
+    return {
+      // Already OpenAI format
+      response: completion,
+      usage: completion.usage
+        ? { inputTokens: completion.usage.prompt_tokens, outputTokens: completion.usage.completion_tokens }
+        : null,
+    };
+  }
+
+  async *stream(request: ChatRequest): AsyncIterable<StreamChunk> {
+    const stream = await this.client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      max_tokens: request.max_tokens,
+      stream: true,
+    });
+
+    for await (const chunk of stream) {
+      yield {
+        // Forward chunk as-is (already OpenAI format)
+        chunk,
+        text: chunk.choices[0]?.delta?.content || '',
+        usage: chunk.usage
+          ? { inputTokens: chunk.usage.prompt_tokens || 0, outputTokens: chunk.usage.completion_tokens || 0 }
+          : undefined,
+      };
+    }
+  }
+}
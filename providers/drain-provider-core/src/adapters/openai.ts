@@ -0,0 +1,67 @@
+/**
+ * OpenAI Adapter
+ * Models from the OpenAI API, pricing from Marketplace.
+ */
+
+import type { UpstreamModel, UpstreamPrice } from '../types.js';
+import { OpenAICompatibleAdapter } from './openai-compatible.js';
+import { resolveMarketplacePricing } from './marketplace.js';
+
+export interface OpenAIAdapterOptions {
+  apiKey: string;
+  marketplaceUrl: string;
+}
+
+/**
+ * Get default pricing based on model family (fallback if not in Marketplace)
+ */
+function getDefaultPrice(modelId: string): UpstreamPrice {
+  // OpenAI pricing tiers based on model
+  if (modelId.includes('gpt-4o-mini')) return { inputPerM: 0.15, outputPerM: 0.60 };
+  if (modelId.includes('gpt-4o')) return { inputPerM: 2.50, outputPerM: 10.00 };
+  if (modelId.includes('gpt-4-turbo')) return { inputPerM: 10.00, outputPerM: 30.00 };
+  if (modelId.includes('gpt-4')) return { inputPerM: 30.00, outputPerM: 60.00 };
+  if (modelId.includes('gpt-3.5')) return { inputPerM: 0.50, outputPerM: 1.50 };
+  if (modelId.includes('o1-mini')) return { inputPerM: 3.00, outputPerM: 12.00 };
+  if (modelId.includes('o1')) return { inputPerM: 15.00, outputPerM: 60.00 };
+  if (modelId.includes('o3-mini')) return { inputPerM: 1.10, outputPerM: 4.40 };
+  // Default to gpt-4o pricing
+  return { inputPerM: 2.50, outputPerM: 10.00 };
+}
+
+/**
+ * Filter: Only chat-capable models (not embeddings, whisper, dall-e, etc.)
+ */
+function isChatModel(modelId: string): boolean {
+  return modelId.startsWith('gpt-') || modelId.startsWith('o1') || modelId.startsWith('o3');
+}
+
+export class OpenAIAdapter extends OpenAICompatibleAdapter {
+  readonly id = 'openai';
+  readonly name = 'OpenAI';
+  private apiKey: string;
+  private marketplaceUrl: string;
+
+  constructor(options: OpenAIAdapterOptions) {
+    // OpenAI client (standard URL)
+    super({ apiKey: options.apiKey });
+    this.apiKey = options.apiKey;
+    this.marketplaceUrl = options.marketplaceUrl;
+  }
+
+  async listModels(): Promise<UpstreamModel[]> {
+    const response = await fetch('https://api.openai.com/v1/models', {
+      headers: { 'Authorization': `Bearer ${this.apiKey}` },
+    });
+    if (!response.ok) throw new Error(`OpenAI API error: ${response.status}`);
+    const data = await response.json() as { data?: Array<{ id: string }> };
+    const allModels = (data.data || []).map(m => m.id);
+    const chatModels = allModels.filter(isChatModel);
+    console.log(`  API returned ${allModels.length} models, ${chatModels.length} are chat models`);
+    return chatModels.map(id => ({ id }));
+  }
+
+  fetchPricing(models: UpstreamModel[]): Promise<Map<string, UpstreamPrice>> {
+    return resolveMarketplacePricing(this.marketplaceUrl, 'openai', models, getDefaultPrice);
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * OpenRouter Adapter
+ *
+ * Meta-provider with 200+ models. Auto-discovers available models and pricing.
+ */
+
+import type { UpstreamModel, UpstreamPrice } from '../types.js';
+import { OpenAICompatibleAdapter } from './openai-compatible.js';
+
+export interface OpenRouterAdapterOptions {
+  apiKey: string;
+}
+
+/**
+ * OpenRouter model info from API
+ */
+export interface OpenRouterModel {
+  id: string;
+  name: string;
+  pricing: {
+    prompt: string;  // Price per token
+    completion: string;
+  };
+  context_length?: number;
+  top_provider?: {
+    max_completion_tokens?: number;
+  };
+}
+
+const OPENROUTER_HEADERS = {
+  'HTTP-Referer': 'https://handshake58.com',
+  'X-Title': 'HS58-OpenRouter',
+};
+
+export class OpenRouterAdapter extends OpenAICompatibleAdapter {
+  readonly id = 'openrouter';
+  readonly name = 'OpenRouter';
+  private apiKey: string;
+  private models: OpenRouterModel[] = [];
+
+  constructor(options: OpenRouterAdapterOptions) {
+    // OpenRouter uses OpenAI-compatible API
+    super({
+      apiKey: options.apiKey,
+      baseURL: 'https://openrouter.ai/api/v1',
+      defaultHeaders: OPENROUTER_HEADERS,
+    });
+    this.apiKey = options.apiKey;
+  }
+
+  async listModels(): Promise<UpstreamModel[]> {
+    const response = await fetch('https://openrouter.ai/api/v1/models', {
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        ...OPENROUTER_HEADERS,
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenRouter API error: ${response.status}`);
+    }
+
+    const data = await response.json() as { data?: OpenRouterModel[] };
+    this.models = data.data || [];
+
+    return this.models.map(m => ({
+      id: m.id,
+      name: m.name,
+      contextLength: m.context_length,
+    }));
+  }
+
+  /**
+   * OpenRouter pricing is per token (as string, e.g., "0.000003"),
+   * converted here to USD per million tokens.
+   */
+  async fetchPricing(models: UpstreamModel[]): Promise<Map<string, UpstreamPrice>> {
+    const wanted = new Set(models.map(m => m.id));
+    const prices = new Map<string, UpstreamPrice>();
+
+    for (const model of this.models) {
+      if (!wanted.has(model.id)) continue;
+      if (!model.pricing?.prompt || !model.pricing?.completion) continue;
+
+      prices.set(model.id, {
+        inputPerM: (parseFloat(model.pricing.prompt) || 0) * 1_000_000,
+        outputPerM: (parseFloat(model.pricing.completion) || 0) * 1_000_000,
+      });
+    }
+
+    return prices;
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * xAI Adapter
+ * Grok models via xAI's OpenAI-compatible API, pricing from Marketplace.
+ */
+
+import type { UpstreamModel, UpstreamPrice } from '../types.js';
+import { OpenAICompatibleAdapter } from './openai-compatible.js';
+import { resolveMarketplacePricing } from './marketplace.js';
+
+export interface XAIAdapterOptions {
+  apiKey: string;
+  marketplaceUrl: string;
+}
+
+/**
+ * Get default pricing based on model family (fallback if not in Marketplace)
+ */
+function getDefaultPrice(modelId: string): UpstreamPrice {
+  // Grok pricing tiers based on model
+  if (modelId.includes('grok-3-mini')) return { inputPerM: 0.30, outputPerM: 0.50 };
+  if (modelId.includes('grok-3')) return { inputPerM: 3.00, outputPerM: 15.00 };
+  if (modelId.includes('grok-2')) return { inputPerM: 2.00, outputPerM: 10.00 };
+  // Default pricing
+  return { inputPerM: 3.00, outputPerM: 15.00 };
+}
+
+export class XAIAdapter extends OpenAICompatibleAdapter {
+  readonly id = 'xai';
+  readonly name = 'xAI';
+  private apiKey: string;
+  private marketplaceUrl: string;
+
+  constructor(options: XAIAdapterOptions) {
+    // xAI uses OpenAI-compatible API
+    super({ apiKey: options.apiKey, baseURL: 'https://api.x.ai/v1' });
+    this.apiKey = options.apiKey;
+    this.marketplaceUrl = options.marketplaceUrl;
+  }
+
+  async listModels(): Promise<UpstreamModel[]> {
+    const response = await fetch('https://api.x.ai/v1/models', {
+      headers: { 'Authorization': `Bearer ${this.apiKey}` },
+    });
+    if (!response.ok) throw new Error(`xAI API error: ${response.status}`);
+    const data = await response.json() as { data?: Array<{ id: string }> };
+    const models = (data.data || []).map(m => m.id);
+    console.log(`  API returned ${models.length} models: ${models.join(', ')}`);
+    return models.map(id => ({ id }));
+  }
+
+  fetchPricing(models: UpstreamModel[]): Promise<Map<string, UpstreamPrice>> {
+    return resolveMarketplacePricing(this.marketplaceUrl, 'xai', models, getDefaultPrice);
+  }
+}
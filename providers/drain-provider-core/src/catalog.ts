@@ -0,0 +1,214 @@
+/**
+ * Model Catalog
+ *
+ * Loads models from upstream adapters and converts upstream prices
+ * into DRAIN pricing (USDC wei per 1000 tokens) with markup.
+ */
+
+import type { ModelPricing, UpstreamAdapter, UpstreamPrice } from './types.js';
+
+/**
+ * Model served by the provider
+ */
+export interface CatalogEntry {
+  /** Model id exposed to agents */
+  id: string;
+  /** Model id sent to the upstream */
+  upstreamId: string;
+  name?: string;
+  contextLength?: number;
+  pricing: ModelPricing;
+  adapter: UpstreamAdapter;
+}
+
+/**
+ * Convert upstream USD per million tokens to USDC wei per 1000 tokens
+ *
+ * Formula: (price_per_million / 1000) * 1_000_000 * markup
+ */
+export function convertPricing(price: UpstreamPrice, markup: number): ModelPricing {
+  return {
+    inputPer1k: BigInt(Math.ceil((price.inputPerM / 1000) * 1_000_000 * markup)),
+    outputPer1k: BigInt(Math.ceil((price.outputPerM / 1000) * 1_000_000 * markup)),
+  };
+}
+
+/**
+ * Calculate cost for a request
+ */
+export function calculateCost(pricing: ModelPricing, inputTokens: number, outputTokens: number): bigint {
+  return (BigInt(inputTokens) * pricing.inputPer1k + BigInt(outputTokens) * pricing.outputPer1k) / 1000n;
+}
+
+/**
+ * Separator between backend id and upstream model id in namespaced ids,
+ * e.g. 'openrouter:openai/gpt-4o'
+ */
+export const NAMESPACE_SEPARATOR = ':';
+
+/**
+ * Priced model list across one or more upstream adapters.
+ *
+ * Model ids offered by a single backend are exposed as-is. Ids offered by
+ * several backends are listed namespaced (`<backend>:<model>`) for each of
+ * them; the bare id still routes to the first adapter in priority order.
+ * Namespaced ids are always accepted.
+ */
+export class ModelCatalog {
+  readonly markup: number;
+  private adapters: UpstreamAdapter[];
+  private byAdapter: Map<string, CatalogEntry[]> = new Map();
+  private entries: Map<string, CatalogEntry> = new Map();
+  private aliases: Map<string, CatalogEntry> = new Map();
+  private lastUpdate = 0;
+  private refreshInterval: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * @param adapters Upstream adapter(s), in routing priority order
+   */
+  constructor(adapters: UpstreamAdapter | UpstreamAdapter[], markup: number) {
+    this.adapters = Array.isArray(adapters) ? adapters : [adapters];
+    this.markup = markup;
+  }
+
+  /**
+   * Load models and pricing: upstream models are the source of truth,
+   * models without a price are not offered.
+   * A backend that fails to refresh keeps its previous models.
+   */
+  async refresh(): Promise<void> {
+    for (const adapter of this.adapters) {
+      try {
+        this.byAdapter.set(adapter.id, await this.loadAdapter(adapter));
+      } catch (error) {
+        if (this.adapters.length === 1) throw error;
+        console.error(`Failed to load models from ${adapter.name}:`, error);
+      }
+    }
+
+    this.rebuildIndex();
+
+    if (this.entries.size === 0) {
+      throw new Error(`No models available from ${this.adapters.map(a => a.name).join(', ')}`);
+    }
+
+    this.lastUpdate = Date.now();
+    console.log(`Loaded ${this.entries.size} models with ${(this.markup - 1) * 100}% markup`);
+  }
+
+  private async loadAdapter(adapter: UpstreamAdapter): Promise<CatalogEntry[]> {
+    console.log(`Loading models from ${adapter.name}...`);
+    const models = await adapter.listModels();
+    const prices = await adapter.fetchPricing(models);
+
+    const entries: CatalogEntry[] = [];
+    for (const model of models) {
+      const price = prices.get(model.id);
+      if (!price) continue;
+
+      entries.push({
+        id: model.id,
+        upstreamId: model.id,
+        name: model.name,
+        contextLength: model.contextLength,
+        pricing: convertPricing(price, this.markup),
+        adapter,
+      });
+    }
+
+    if (entries.length === 0) throw new Error(`No models available from ${adapter.name}`);
+    return entries;
+  }
+
+  /**
+   * Rebuild the exposed ids, namespacing collisions between backends
+   */
+  private rebuildIndex(): void {
+    const owners = new Map<string, number>();
+    for (const adapter of this.adapters) {
+      for (const entry of this.byAdapter.get(adapter.id) ?? []) {
+        owners.set(entry.upstreamId, (owners.get(entry.upstreamId) ?? 0) + 1);
+      }
+    }
+
+    const entries = new Map<string, CatalogEntry>();
+    const aliases = new Map<string, CatalogEntry>();
+    for (const adapter of this.adapters) {
+      for (const entry of this.byAdapter.get(adapter.id) ?? []) {
+        const namespaced = `${adapter.id}${NAMESPACE_SEPARATOR}${entry.upstreamId}`;
+        const collides = (owners.get(entry.upstreamId) ?? 0) > 1;
+
+        entry.id = collides ? namespaced : entry.upstreamId;
+        entries.set(entry.id, entry);
+        aliases.set(namespaced, entry);
+
+        // Bare id of a colliding model routes to the first backend offering it
+        if (collides && !aliases.has(entry.upstreamId)) {
+          aliases.set(entry.upstreamId, entry);
+        }
+      }
+    }
+
+    this.entries = entries;
+    this.aliases = aliases;
+  }
+
+  /**
+   * Look up a model by the id agents use
+   */
+  resolve(model: string): CatalogEntry | null {
+    return this.entries.get(model) ?? this.aliases.get(model) ?? null;
+  }
+
+  getModelPricing(model: string): ModelPricing | null {
+    return this.resolve(model)?.pricing ?? null;
+  }
+
+  isModelSupported(model: string): boolean {
+    return this.resolve(model) !== null;
+  }
+
+  getAdapters(): UpstreamAdapter[] {
+    return this.adapters;
+  }
+
+  getSupportedModels(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  getModelList(): CatalogEntry[] {
+    return Array.from(this.entries.values());
+  }
+
+  /**
+   * Get pricing age in seconds
+   */
+  getPricingAge(): number {
+    return Math.floor((Date.now() - this.lastUpdate) / 1000);
+  }
+
+  /**
+   * Start periodic pricing refresh
+   */
+  startAutoRefresh(intervalMs: number): void {
+    if (this.refreshInterval) return;
+
+    this.refreshInterval = setInterval(async () => {
+      try {
+        await this.refresh();
+      } catch (error) {
+        console.error('Failed to refresh pricing:', error);
+      }
+    }, intervalMs);
+  }
+
+  /**
+   * Stop periodic pricing refresh
+   */
+  stopAutoRefresh(): void {
+    if (this.refreshInterval) {
+      clearInterval(this.refreshInterval);
+      this.refreshInterval = null;
+    }
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * DRAIN Deployments
+ *
+ * Registry of chains a provider can accept channels on: chain definition,
+ * DrainChannel contract, payment token and explorer.
+ */
+
+import type { Address, Chain } from 'viem';
+import { polygon, polygonAmoy } from 'viem/chains';
+import { DRAIN_ADDRESSES, USDC_DECIMALS } from './constants.js';
+import type { ModelPricing } from './types.js';
+
+/**
+ * ERC-20 token channels are funded with
+ */
+export interface PaymentToken {
+  symbol: string;
+  address: Address;
+  decimals: number;
+}
+
+/**
+ * DrainChannel contract deployed on one chain
+ */
+export interface DrainDeployment {
+  chainId: number;
+  name: string;
+  chain: Chain;
+  drainAddress: Address;
+  token: PaymentToken;
+  explorerUrl: string;
+  /** DrainChannel exposes multicall(bytes[]), so several claims fit in one transaction (opt-in, off for the built-in deployments) */
+  multicall?: boolean;
+}
+
+/**
+ * Known DRAIN deployments by chain id
+ */
+export const DRAIN_DEPLOYMENTS: Record<number, DrainDeployment> = {
+  137: {
+    chainId: 137,
+    name: 'Polygon Mainnet',
+    chain: polygon,
+    drainAddress: DRAIN_ADDRESSES[137] as Address,
+    token: { symbol: 'USDC', address: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359', decimals: USDC_DECIMALS },
+    explorerUrl: 'https://polygonscan.com',
+  },
+  80002: {
+    chainId: 80002,
+    name: 'Polygon Amoy (Testnet)',
+    chain: polygonAmoy,
+    drainAddress: DRAIN_ADDRESSES[80002] as Address,
+    token: { symbol: 'USDC', address: '0x41E94Eb019C0762f9Bfcf9Fb1E58725BfB0e7582', decimals: USDC_DECIMALS },
+    explorerUrl: 'https://amoy.polygonscan.com',
+  },
+};
+
+/**
+ * Add or replace a deployment (e.g. a DRAIN contract on another chain).
+ * Call before creating the DrainService.
+ */
+export function registerDeployment(deployment: DrainDeployment): void {
+  DRAIN_DEPLOYMENTS[deployment.chainId] = deployment;
+}
+
+/**
+ * Look up a deployment, throwing for unknown chains
+ */
+export function getDeployment(chainId: number): DrainDeployment {
+  const deployment = DRAIN_DEPLOYMENTS[chainId];
+  if (!deployment) {
+    throw new Error(`No DRAIN deployment for chain ${chainId}. Known chains: ${Object.keys(DRAIN_DEPLOYMENTS).join(', ')}`);
+  }
+  return deployment;
+}
+
+/**
+ * Convert a USDC amount (6 decimals) to a token's smallest unit, rounding up
+ */
+export function toTokenUnits(amount: bigint, decimals: number): bigint {
+  if (decimals >= USDC_DECIMALS) return amount * 10n ** BigInt(decimals - USDC_DECIMALS);
+  const divisor = 10n ** BigInt(USDC_DECIMALS - decimals);
+  return (amount + divisor - 1n) / divisor;
+}
+
+/**
+ * Convert a native gas cost (wei) to a USD-pegged token's smallest unit,
+ * given the native token price in USD, rounding up
+ */
+export function gasCostToTokenUnits(costWei: bigint, nativePriceUsd: number, decimals: number): bigint {
+  const priceMicros = BigInt(Math.ceil(nativePriceUsd * 1e6));
+  const divisor = 10n ** 18n * 1_000_000n;
+  return (costWei * priceMicros * 10n ** BigInt(decimals) + divisor - 1n) / divisor;
+}
+
+/**
+ * Convert catalog pricing (USDC, 6 decimals) to a token's smallest unit
+ */
+export function toTokenPricing(pricing: ModelPricing, decimals: number): ModelPricing {
+  if (decimals === USDC_DECIMALS) return pricing;
+  return {
+    inputPer1k: toTokenUnits(pricing.inputPer1k, decimals),
+    outputPer1k: toTokenUnits(pricing.outputPer1k, decimals),
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * On-chain Channel Cache
+ * 
+ * Keeps `getChannel` results in memory so voucher validation for active
+ * channels does not hit the RPC on every request. Entries expire after a
+ * TTL and are invalidated when the contract emits a deposit, claim or
+ * close event for the channel.
+ */
+
+import type { Address, Hash } from 'viem';
+
+/**
+ * Channel as returned by DrainChannel.getChannel
+ */
+export interface OnChainChannel {
+  consumer: Address;
+  provider: Address;
+  deposit: bigint;
+  claimed: bigint;
+  expiry: bigint;
+}
+
+interface CacheEntry {
+  channel: OnChainChannel;
+  expiresAt: number;
+}
+
+/**
+ * TTL cache of on-chain channel data keyed by lowercase channelId
+ */
+export class ChannelCache {
+  private ttlMs: number;
+  private entries: Map<string, CacheEntry> = new Map();
+  private hits = 0;
+  private misses = 0;
+
+  constructor(ttlMs: number) {
+    this.ttlMs = ttlMs;
+  }
+
+  /**
+   * Get a cached channel, or null on miss/expiry
+   */
+  get(channelId: Hash): OnChainChannel | null {
+    const key = channelId.toLowerCase();
+    const entry = this.entries.get(key);
+
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) this.entries.delete(key);
+      this.misses++;
+      return null;
+    }
+
+    this.hits++;
+    return entry.channel;
+  }
+
+  set(channelId: Hash, channel: OnChainChannel): void {
+    if (this.ttlMs <= 0) return;
+    this.entries.set(channelId.toLowerCase(), { channel, expiresAt: Date.now() + this.ttlMs });
+  }
+
+  /**
+   * Drop a channel so the next read goes to the contract
+   */
+  invalidate(channelId: Hash): void {
+    this.entries.delete(channelId.toLowerCase());
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Cache metrics
+   */
+  getStats(): { size: number; ttlSeconds: number; hits: number; misses: number; hitRate: number } {
+    const lookups = this.hits + this.misses;
+    return {
+      size: this.entries.size,
+      ttlSeconds: this.ttlMs / 1000,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups === 0 ? 0 : this.hits / lookups,
+    };
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Channel Holds
+ *
+ * In-flight reservations against a channel's voucher: the estimated
+ * maximum cost is held at pre-auth, then settled at the actual cost
+ * or released if the upstream call fails.
+ */
+
+import { randomUUID } from 'crypto';
+import type { Hash } from 'viem';
+
+/**
+ * Amount reserved for one in-flight request
+ */
+export interface ChannelHold {
+  id: string;
+  channelId: Hash;
+  amount: bigint;
+  createdAt: number;
+}
+
+/**
+ * In-memory hold book, keyed by hold id
+ */
+export class ChannelHolds {
+  private holds: Map<string, ChannelHold> = new Map();
+
+  /**
+   * Place a hold on a channel
+   */
+  place(channelId: Hash, amount: bigint): ChannelHold {
+    const hold: ChannelHold = {
+      id: randomUUID(),
+      channelId,
+      amount,
+      createdAt: Date.now(),
+    };
+    this.holds.set(hold.id, hold);
+    return hold;
+  }
+
+  /**
+   * Remove a hold. Returns false if it was already settled or released.
+   */
+  remove(hold: ChannelHold): boolean {
+    return this.holds.delete(hold.id);
+  }
+
+  /**
+   * Check whether a hold is still open
+   */
+  isActive(hold: ChannelHold): boolean {
+    return this.holds.has(hold.id);
+  }
+
+  /**
+   * Open holds on a channel
+   */
+  getHolds(channelId: Hash): ChannelHold[] {
+    const key = channelId.toLowerCase();
+    return Array.from(this.holds.values()).filter(h => h.channelId.toLowerCase() === key);
+  }
+
+  /**
+   * Total amount held on a channel
+   */
+  getReserved(channelId: Hash): bigint {
+    return this.getHolds(channelId).reduce((sum, h) => sum + h.amount, 0n);
+  }
+
+  /**
+   * Hold metrics
+   */
+  getStats(): { activeHolds: number; totalReserved: string } {
+    let total = 0n;
+    for (const hold of this.holds.values()) total += hold.amount;
+    return { activeHolds: this.holds.size, totalReserved: total.toString() };
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Per-Channel Lock
+ * 
+ * Serializes paid requests on the same channel across
+ * validateVoucher → upstream call → storeVoucher, so two concurrent
+ * requests cannot both pass validation against the same totalCharged.
+ */
+
+/**
+ * Releases a held channel lock (idempotent)
+ */
+export type ReleaseChannel = () => void;
+
+/**
+ * Keyed mutex with FIFO waiters and wait timeout
+ */
+export class ChannelLock {
+  private locked: Set<string> = new Set();
+  private waiters: Map<string, Array<() => void>> = new Map();
+
+  /**
+   * Acquire the lock for a channel.
+   * 
+   * Waits up to `waitMs` behind the current holder (FIFO).
+   * Returns null if the channel is still busy after waiting,
+   * or immediately if `waitMs` is 0 and the channel is held.
+   */
+  acquire(channelId: string, waitMs: number): Promise<ReleaseChannel | null> {
+    const key = channelId.toLowerCase();
+
+    if (!this.locked.has(key)) {
+      this.locked.add(key);
+      return Promise.resolve(this.createRelease(key));
+    }
+
+    if (waitMs <= 0) return Promise.resolve(null);
+
+    return new Promise(resolve => {
+      const queue = this.waiters.get(key) ?? [];
+
+      const grant = () => {
+        clearTimeout(timer);
+        resolve(this.createRelease(key));
+      };
+
+      const timer = setTimeout(() => {
+        const current = this.waiters.get(key);
+        if (current) {
+          const index = current.indexOf(grant);
+          if (index !== -1) current.splice(index, 1);
+          if (current.length === 0) this.waiters.delete(key);
+        }
+        resolve(null);
+      }, waitMs);
+
+      queue.push(grant);
+      this.waiters.set(key, queue);
+    });
+  }
+
+  /**
+   * Check whether a channel is currently held
+   */
+  isLocked(channelId: string): boolean {
+    return this.locked.has(channelId.toLowerCase());
+  }
+
+  /**
+   * Lock metrics
+   */
+  getStats(): { lockedChannels: number; waiting: number } {
+    let waiting = 0;
+    for (const queue of this.waiters.values()) waiting += queue.length;
+    return { lockedChannels: this.locked.size, waiting };
+  }
+
+  /**
+   * Hand the lock to the next waiter, or free it
+   */
+  private createRelease(key: string): ReleaseChannel {
+    let released = false;
+
+    return () => {
+      if (released) return;
+      released = true;
+
+      const queue = this.waiters.get(key);
+      const next = queue?.shift();
+      if (queue && queue.length === 0) this.waiters.delete(key);
+
+      if (next) {
+        next();
+      } else {
+        this.locked.delete(key);
+      }
+    };
+  }
+}
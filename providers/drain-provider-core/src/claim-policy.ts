@@ -0,0 +1,39 @@
+/**
+ * Auto-Claim Policy
+ *
+ * Quiet-hour window parsing and checks for the auto-claim schedule.
+ * Hours are UTC; a window may wrap midnight (22-6).
+ */
+
+import type { QuietHours } from './types.js';
+
+/**
+ * Parse a quiet-hour window "start-end" (UTC hours, end exclusive)
+ */
+export function parseQuietHours(value: string): QuietHours {
+  const match = /^\s*(\d{1,2})\s*-\s*(\d{1,2})\s*$/.exec(value);
+  const start = Number(match?.[1]);
+  const end = Number(match?.[2]);
+  if (!match || start > 23 || end > 24 || start === end) {
+    throw new Error(`Invalid quiet hours: ${value}. Expected "start-end" in UTC hours, e.g. 22-6`);
+  }
+  return { start, end };
+}
+
+/**
+ * Whether `date` falls inside the quiet-hour window
+ */
+export function isQuietHour(quiet: QuietHours, date: Date = new Date()): boolean {
+  const hour = date.getUTCHours();
+  return quiet.start < quiet.end
+    ? hour >= quiet.start && hour < quiet.end
+    : hour >= quiet.start || hour < quiet.end;
+}
+
+/**
+ * "22:00-06:00 UTC"
+ */
+export function formatQuietHours(quiet: QuietHours): string {
+  const pad = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+  return `${pad(quiet.start)}-${pad(quiet.end)} UTC`;
+}
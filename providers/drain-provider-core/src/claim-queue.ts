@@ -0,0 +1,199 @@
+/**
+ * Claim Queue
+ *
+ * Single serialized worker for every claim: manual /v1/admin/claim runs,
+ * auto-claim and retries. Requests are keyed by channel, so a channel
+ * that is already waiting is merged into its queued entry instead of
+ * being queued twice, and runs never overlap. The same voucher cannot be
+ * submitted twice and wallet nonces are handed out one run at a time.
+ * Other wallet transactions (treasury sweeps) run between claim runs.
+ */
+
+import type { Hash } from 'viem';
+import type { ClaimReport } from './types.js';
+
+/**
+ * Who asked for a claim
+ */
+export type ClaimSource = 'manual' | 'auto' | 'retry';
+
+/**
+ * One channel waiting to be claimed
+ */
+export interface ClaimRequest {
+  channelId: Hash;
+  /** Channel expires soon: threshold and gas checks are skipped */
+  expiring: boolean;
+  /** Claim regardless of threshold, gas and dead letters */
+  force: boolean;
+  /** Claim threshold override (USDC wei), e.g. for the daily claim */
+  threshold?: bigint;
+  sources: ClaimSource[];
+  queuedAt: number;
+}
+
+/**
+ * Queue state for the admin API
+ */
+export interface ClaimQueueStats {
+  queued: ClaimRequest[];
+  running: { channelIds: Hash[]; sources: ClaimSource[]; startedAt: number } | null;
+  lastRun: { channels: number; transactions: number; startedAt: number; finishedAt: number; error?: string } | null;
+  runs: number;
+  /** Other wallet tasks waiting for the worker */
+  tasks: number;
+}
+
+interface ClaimWaiter {
+  channelIds: Set<string>;
+  resolve: (report: ClaimReport) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Serialized, per-channel deduplicating claim queue
+ */
+export class ClaimQueue {
+  private queued: Map<string, ClaimRequest> = new Map();
+  private waiters: ClaimWaiter[] = [];
+  private tasks: Array<() => Promise<void>> = [];
+  private draining = false;
+  private running: ClaimQueueStats['running'] = null;
+  private lastRun: ClaimQueueStats['lastRun'] = null;
+  private runs = 0;
+  private worker: (requests: ClaimRequest[]) => Promise<ClaimReport>;
+
+  constructor(worker: (requests: ClaimRequest[]) => Promise<ClaimReport>) {
+    this.worker = worker;
+  }
+
+  /**
+   * Queue channels for claiming. Resolves with the part of the run's
+   * report that covers these channels once the worker has processed them.
+   */
+  enqueue(
+    requests: Array<{ channelId: Hash; expiring: boolean; force: boolean; threshold?: bigint }>,
+    source: ClaimSource
+  ): Promise<ClaimReport> {
+    if (requests.length === 0) {
+      return Promise.resolve({ dryRun: false, planned: [], executed: [], transactions: [] });
+    }
+
+    const channelIds = new Set<string>();
+    for (const request of requests) {
+      const key = request.channelId.toLowerCase();
+      channelIds.add(key);
+
+      const existing = this.queued.get(key);
+      if (existing) {
+        existing.expiring ||= request.expiring;
+        existing.force ||= request.force;
+        if (request.threshold !== undefined && (existing.threshold === undefined || request.threshold < existing.threshold)) {
+          existing.threshold = request.threshold;
+        }
+        if (!existing.sources.includes(source)) existing.sources.push(source);
+      } else {
+        this.queued.set(key, { ...request, sources: [source], queuedAt: Date.now() });
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      this.waiters.push({ channelIds, resolve, reject });
+      this.drain();
+    });
+  }
+
+  /**
+   * Run another wallet task after the current claim run, so it never
+   * races a claim for a nonce
+   */
+  runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      this.tasks.push(() => task().then(resolve, reject));
+      this.drain();
+    });
+  }
+
+  /**
+   * Whether a channel is waiting or being claimed right now
+   */
+  isQueued(channelId: Hash): boolean {
+    const key = channelId.toLowerCase();
+    return this.queued.has(key) || !!this.running?.channelIds.some(id => id.toLowerCase() === key);
+  }
+
+  /**
+   * Queue metrics
+   */
+  getStats(): ClaimQueueStats {
+    return {
+      queued: Array.from(this.queued.values()),
+      running: this.running,
+      lastRun: this.lastRun,
+      runs: this.runs,
+      tasks: this.tasks.length,
+    };
+  }
+
+  /**
+   * Run queued requests one batch at a time, and waiting tasks in
+   * between, until both are empty
+   */
+  private async drain(): Promise<void> {
+    if (this.draining) return;
+    this.draining = true;
+
+    try {
+      while (this.queued.size > 0 || this.tasks.length > 0) {
+        const task = this.tasks.shift();
+        if (task) await task();
+        if (this.queued.size === 0) continue;
+
+        const batch = Array.from(this.queued.values());
+        const waiters = this.waiters;
+        this.queued = new Map();
+        this.waiters = [];
+
+        const startedAt = Date.now();
+        this.running = {
+          channelIds: batch.map(r => r.channelId),
+          sources: Array.from(new Set(batch.flatMap(r => r.sources))),
+          startedAt,
+        };
+
+        try {
+          const report = await this.worker(batch);
+          this.lastRun = { channels: batch.length, transactions: report.transactions.length, startedAt, finishedAt: Date.now() };
+          for (const waiter of waiters) waiter.resolve(reportFor(report, waiter.channelIds));
+        } catch (error) {
+          this.lastRun = {
+            channels: batch.length,
+            transactions: 0,
+            startedAt,
+            finishedAt: Date.now(),
+            error: error instanceof Error ? error.message : String(error),
+          };
+          for (const waiter of waiters) waiter.reject(error);
+        } finally {
+          this.running = null;
+          this.runs++;
+        }
+      }
+    } finally {
+      this.draining = false;
+    }
+  }
+}
+
+/**
+ * The part of a report covering some channels
+ */
+function reportFor(report: ClaimReport, channelIds: Set<string>): ClaimReport {
+  const executed = report.executed.filter(e => e.channelIds.some(id => channelIds.has(id.toLowerCase())));
+  return {
+    dryRun: report.dryRun,
+    planned: report.planned.filter(p => channelIds.has(p.channelId.toLowerCase())),
+    executed,
+    transactions: executed.flatMap(e => (e.txHash ? [e.txHash] : [])),
+  };
+}
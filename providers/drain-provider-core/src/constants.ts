@@ -0,0 +1,137 @@
+/**
+ * DRAIN Protocol Constants
+ */
+
+// Contract Addresses
+export const DRAIN_ADDRESSES: Record<number, string> = {
+  137: '0x1C1918C99b6DcE977392E4131C91654d8aB71e64',
+  80002: '0x61f1C1E04d6Da1C92D0aF1a3d7Dc0fEFc8794d7C',
+};
+
+// USDC has 6 decimals
+export const USDC_DECIMALS = 6;
+
+// EIP-712 Domain
+export const EIP712_DOMAIN = {
+  name: 'DrainChannel',
+  version: '1',
+} as const;
+
+// EIP-712 Voucher type
+export const EIP712_VOUCHER_TYPES = {
+  Voucher: [
+    { name: 'channelId', type: 'bytes32' },
+    { name: 'amount', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+  ],
+} as const;
+
+// EIP-712 SessionKey delegation type
+export const EIP712_SESSION_KEY_TYPES = {
+  SessionKey: [
+    { name: 'channelId', type: 'bytes32' },
+    { name: 'sessionKey', type: 'address' },
+    { name: 'maxAmount', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' },
+  ],
+} as const;
+
+// DrainChannel ABI (minimal)
+export const DRAIN_CHANNEL_ABI = [
+  {
+    inputs: [{ name: 'channelId', type: 'bytes32' }],
+    name: 'getChannel',
+    outputs: [
+      {
+        components: [
+          { name: 'consumer', type: 'address' },
+          { name: 'provider', type: 'address' },
+          { name: 'deposit', type: 'uint256' },
+          { name: 'claimed', type: 'uint256' },
+          { name: 'expiry', type: 'uint256' },
+        ],
+        name: '',
+        type: 'tuple',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ name: 'channelId', type: 'bytes32' }],
+    name: 'getBalance',
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { name: 'channelId', type: 'bytes32' },
+      { name: 'amount', type: 'uint256' },
+      { name: 'nonce', type: 'uint256' },
+      { name: 'signature', type: 'bytes' },
+    ],
+    name: 'claim',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+] as const;
+
+// Optional DrainChannel batching (OpenZeppelin Multicall). Claims must come
+// from the provider itself, so external aggregators like Multicall3 don't work.
+export const DRAIN_MULTICALL_ABI = [
+  {
+    inputs: [{ name: 'data', type: 'bytes[]' }],
+    name: 'multicall',
+    outputs: [{ name: 'results', type: 'bytes[]' }],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+] as const;
+
+// DrainChannel events that change on-chain channel state
+export const DRAIN_CHANNEL_EVENTS_ABI = [
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'channelId', type: 'bytes32' },
+      { indexed: true, name: 'consumer', type: 'address' },
+      { indexed: true, name: 'provider', type: 'address' },
+      { indexed: false, name: 'amount', type: 'uint256' },
+      { indexed: false, name: 'expiry', type: 'uint256' },
+    ],
+    name: 'ChannelOpened',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'channelId', type: 'bytes32' },
+      { indexed: false, name: 'amount', type: 'uint256' },
+      { indexed: false, name: 'newDeposit', type: 'uint256' },
+    ],
+    name: 'ChannelDeposited',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'channelId', type: 'bytes32' },
+      { indexed: true, name: 'provider', type: 'address' },
+      { indexed: false, name: 'amount', type: 'uint256' },
+    ],
+    name: 'ChannelClaimed',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'channelId', type: 'bytes32' },
+      { indexed: true, name: 'consumer', type: 'address' },
+      { indexed: false, name: 'refund', type: 'uint256' },
+    ],
+    name: 'ChannelClosed',
+    type: 'event',
+  },
+] as const;
@@ -0,0 +1,2336 @@
+/**
+ * DRAIN Integration
+ * 
+ * Handles voucher validation and payment claims.
+ */
+
+import {
+  createPublicClient,
+  createWalletClient,
+  verifyTypedData,
+  recoverTypedDataAddress,
+  isErc6492Signature,
+  isAddressEqual,
+  decodeFunctionData,
+  encodeFunctionData,
+  erc20Abi,
+  BaseError,
+  TransactionNotFoundError,
+  ContractFunctionRevertedError,
+  WaitForTransactionReceiptTimeoutError,
+  type Hash,
+  type Hex,
+  type Address,
+  type TypedDataDefinition,
+  type GetContractEventsReturnType,
+} from 'viem';
+import type { LocalAccount } from 'viem/accounts';
+import {
+  DRAIN_CHANNEL_ABI,
+  DRAIN_CHANNEL_EVENTS_ABI,
+  DRAIN_MULTICALL_ABI,
+  EIP712_DOMAIN,
+  EIP712_VOUCHER_TYPES,
+  EIP712_SESSION_KEY_TYPES,
+} from './constants.js';
+import type {
+  DrainConfig,
+  VoucherHeader,
+  StoredVoucher,
+  ChannelState,
+  SessionKeyDelegation,
+  SessionKeyGrant,
+  ReconcileReport,
+  PlannedClaim,
+  ExecutedClaim,
+  ClaimReport,
+  SweepRecord,
+  SignerOptions,
+  AutoClaimPolicy,
+  AutoClaimRun,
+} from './types.js';
+import type { DrainErrorCode } from './errors.js';
+import { VoucherStorage } from './storage.js';
+import { ChannelCache, type OnChainChannel } from './channel-cache.js';
+import { ChannelLock, type ReleaseChannel } from './channel-lock.js';
+import { ChannelHolds, type ChannelHold } from './channel-holds.js';
+import { StreamTopUps } from './stream-topups.js';
+import { RpcPool, createRpcTransport, type RpcTransportFactory } from './rpc.js';
+import { getDeployment, toTokenUnits, gasCostToTokenUnits, type DrainDeployment } from './chains.js';
+import { decodeVoucher } from './voucher-encoding.js';
+import { NonceWatermarks, watermarkPathFor } from './watermarks.js';
+import { EventCursors, eventCursorPathFor } from './event-cursors.js';
+import { createSigner, verifySigner } from './signer.js';
+import { ClaimQueue, type ClaimRequest, type ClaimSource } from './claim-queue.js';
+import { isQuietHour, formatQuietHours } from './claim-policy.js';
+
+/** Default channel cache TTL in seconds */
+const DEFAULT_CHANNEL_CACHE_TTL = 30;
+
+/** Default wait for a busy channel in seconds */
+const DEFAULT_CHANNEL_LOCK_TIMEOUT = 30;
+
+/** Default refusal window before channel expiry in seconds */
+const DEFAULT_CHANNEL_EXPIRY_WINDOW = 900;
+
+/** Default pause for a mid-stream top-up voucher in seconds (the channel stays locked meanwhile) */
+const DEFAULT_TOPUP_TIMEOUT = 5;
+
+/** Default claim value to gas cost ratio below which claims are skipped */
+const DEFAULT_CLAIM_GAS_FACTOR = 2;
+
+/** Default USD price of the native gas token (deliberately high for POL) */
+const DEFAULT_NATIVE_TOKEN_PRICE = 1;
+
+/** Default claims per multicall transaction */
+const DEFAULT_CLAIM_BATCH_SIZE = 20;
+
+/** Default claim attempts before a voucher is dead-lettered */
+const DEFAULT_CLAIM_MAX_ATTEMPTS = 5;
+
+/** Seconds to wait for a claim receipt before bumping fees */
+const CLAIM_RECEIPT_TIMEOUT = 120;
+
+/** Fee replacements for a stuck claim before it counts as dropped */
+const MAX_FEE_BUMPS = 3;
+
+/** Consecutive lookups that must miss a claim transaction before it counts as dropped */
+const DROP_CONFIRMATIONS = 3;
+
+/** Seconds between lookups of a claim transaction that went missing */
+const DROP_RECHECK_DELAY = 15;
+
+/** Fee multiplier (percent) for a replacement claim transaction */
+const FEE_BUMP_PERCENT = 125n;
+
+/** First claim retry delay in seconds, doubling per attempt up to an hour */
+const CLAIM_RETRY_BASE_DELAY = 60;
+
+/** Default minutes between auto-claim runs */
+const DEFAULT_AUTO_CLAIM_INTERVAL = 10;
+
+/** Default seconds before expiry from which channels are auto-claimed */
+const DEFAULT_AUTO_CLAIM_EXPIRY_BUFFER = 3600;
+
+/** Default smallest sweep to the treasury (USDC wei) */
+const DEFAULT_SWEEP_MIN_AMOUNT = 1_000_000n;
+
+/** Seconds to wait for a sweep receipt before giving up on it */
+const SWEEP_RECEIPT_TIMEOUT = 600;
+
+/** Default blocks scanned for our ChannelClaimed events at startup */
+const DEFAULT_RECONCILE_LOOKBACK_BLOCKS = 200_000;
+
+/** Default blocks per getLogs request (reconciliation and event catch-up) */
+const DEFAULT_RECONCILE_LOG_CHUNK = 10_000;
+
+/** Default blocks scanned for channel events on first start */
+const DEFAULT_EVENT_LOOKBACK_BLOCKS = 10_000;
+
+/** Default seconds between log polls when the event subscription fails */
+const DEFAULT_EVENT_POLL_INTERVAL = 15;
+
+/** Seconds before retrying a chain whose reconciliation failed */
+const RECONCILE_RETRY_DELAY = 30;
+
+/**
+ * How a chain's channel events are being followed
+ */
+type ChannelEventMode = 'stopped' | 'catching_up' | 'subscription' | 'polling';
+
+/**
+ * Clients and channel cache for one accepted DRAIN deployment
+ */
+function createChainContext(
+  deployment: DrainDeployment,
+  account: LocalAccount,
+  options: { rpcUrls?: string[]; claimRpcUrls?: string[]; rpcQuorum?: number; rpcTransport?: RpcTransportFactory; cacheTtlMs: number }
+) {
+  // Reads fail over across the RPC list; claims go through the claim RPCs if set
+  const rpc = new RpcPool(deployment.chain, options.rpcUrls, options.rpcQuorum, options.rpcTransport);
+  const claimTransport = createRpcTransport(deployment.chain, options.claimRpcUrls ?? options.rpcUrls, options.rpcTransport);
+
+  return {
+    deployment,
+    rpc,
+    publicClient: rpc.client,
+    walletClient: createWalletClient({ account, chain: deployment.chain, transport: claimTransport }),
+    /** Reads from the nodes claims are sent through, which know their mempool */
+    claimClient: createPublicClient({ chain: deployment.chain, transport: claimTransport }),
+    channelCache: new ChannelCache(options.cacheTtlMs),
+    unwatchEvents: null as (() => void) | null,
+    /** Channel event watcher state */
+    events: {
+      mode: 'stopped' as ChannelEventMode,
+      syncing: null as Promise<void> | null,
+      handling: Promise.resolve(),
+      count: 0,
+      lastEventAt: null as number | null,
+      error: null as string | null,
+    },
+    reconciled: false,
+    /** Channels merged with the chain by a reconciliation so far (lowercase ids) */
+    reconciledChannels: new Set<string>(),
+    lastReconcile: null as ReconcileReport | null,
+    /** Next wallet nonce per provider key, unset until synced from the chain */
+    nonces: new Map<Address, number>(),
+    /** A treasury sweep is waiting in the claim queue */
+    sweepQueued: false,
+  };
+}
+
+type ChainContext = ReturnType<typeof createChainContext>;
+
+/**
+ * Decoded DrainChannel event, from getLogs or the event watcher
+ */
+type ChannelEventLog = GetContractEventsReturnType<typeof DRAIN_CHANNEL_EVENTS_ABI>[number] extends infer L
+  ? L extends unknown ? Pick<L, Extract<keyof L, 'eventName' | 'args'>> : never
+  : never;
+
+/**
+ * Voucher considered for a claim
+ */
+type ClaimCandidate = { voucher: StoredVoucher; expiring: boolean; force: boolean; threshold?: bigint };
+
+/**
+ * DRAIN service for the provider
+ */
+export class DrainService {
+  private config: DrainConfig;
+  private storage: VoucherStorage;
+  private watermarks: NonceWatermarks;
+  private eventCursors: EventCursors;
+  private account: LocalAccount;
+  private signerType: SignerOptions['type'];
+  /** Earlier provider keys, still serving and claiming their channels until expiry */
+  private retiredAccounts: LocalAccount[];
+  private chains: Map<number, ChainContext> = new Map();
+  private channelLock: ChannelLock = new ChannelLock();
+  private channelHolds: ChannelHolds = new ChannelHolds();
+  private streams: StreamTopUps = new StreamTopUps();
+  /** Whether each channel's consumer signs as an EOA or a contract wallet */
+  private consumerKinds: Map<string, 'eoa' | 'contract'> = new Map();
+  /** Every claim that sends a transaction runs through this queue */
+  private claimQueue: ClaimQueue = new ClaimQueue(requests => this.processClaims(requests));
+
+  constructor(config: DrainConfig, storage: VoucherStorage) {
+    this.config = config;
+    this.storage = storage;
+    this.watermarks = new NonceWatermarks(config.watermarkPath ?? watermarkPathFor(config.storagePath));
+    this.eventCursors = new EventCursors(config.eventCursorPath ?? eventCursorPathFor(config.storagePath));
+
+    // Keystore or remote signer if configured, else the raw key
+    const signer = config.signer ?? (config.providerPrivateKey && { type: 'raw', privateKey: config.providerPrivateKey });
+    if (!signer) throw new Error('No provider key: set PROVIDER_PRIVATE_KEY, KEYSTORE_PATH or REMOTE_SIGNER_URL');
+    if (config.signer && config.providerPrivateKey) {
+      console.warn(`[signer] Using the ${config.signer.type} signer, PROVIDER_PRIVATE_KEY is ignored`);
+    }
+    // A raw retired key in env would undo keeping the active key out of it
+    if (signer.type !== 'raw' && config.retiredSigners?.some(retired => retired.type === 'raw')) {
+      throw new Error(
+        `RETIRED_PROVIDER_KEYS is not accepted with the ${signer.type} signer: ` +
+        'move retired keys to RETIRED_KEYSTORE_PATHS or RETIRED_REMOTE_SIGNER_ADDRESSES'
+      );
+    }
+    this.account = createSigner(signer);
+    this.signerType = signer.type;
+
+    this.retiredAccounts = (config.retiredSigners ?? [])
+      .map(createSigner)
+      .filter(account => !isAddressEqual(account.address, this.account.address));
+    if (this.retiredAccounts.length > 0) {
+      console.log(
+        `[signer] Active provider ${this.account.address}, still serving channels of retired ` +
+        this.retiredAccounts.map(a => a.address).join(', ')
+      );
+    }
+
+    if (config.treasuryAddress && this.accountFor(config.treasuryAddress)) {
+      throw new Error('TREASURY_ADDRESS must differ from the provider addresses');
+    }
+
+    // CHAIN_ID first, then any extra DRAIN_CHAINS
+    const cacheTtlMs = (config.channelCacheTtl ?? DEFAULT_CHANNEL_CACHE_TTL) * 1000;
+    for (const chainId of new Set([config.chainId, ...(config.chainIds ?? [])])) {
+      const primary = chainId === config.chainId;
+      this.chains.set(chainId, createChainContext(getDeployment(chainId), this.account, {
+        rpcUrls: primary ? config.rpcUrls : config.chainRpcUrls?.[chainId],
+        claimRpcUrls: primary ? config.claimRpcUrls : undefined,
+        rpcQuorum: primary ? config.rpcQuorum : undefined,
+        rpcTransport: config.rpcTransport,
+        cacheTtlMs,
+      }));
+    }
+  }
+
+  /**
+   * Deployments channels are accepted on, CHAIN_ID first
+   */
+  getAcceptedDeployments(): DrainDeployment[] {
+    return Array.from(this.chains.values()).map(ctx => ctx.deployment);
+  }
+
+  /**
+   * Deployment for a chain (default: CHAIN_ID), also for chains no longer accepted
+   */
+  getDeployment(chainId?: number): DrainDeployment {
+    const id = chainId ?? this.config.chainId;
+    return this.chains.get(id)?.deployment ?? getDeployment(id);
+  }
+
+  /**
+   * Deployment a voucher is paid on, or null if that chain is not accepted
+   */
+  resolveDeployment(voucher: VoucherHeader): DrainDeployment | null {
+    return this.chains.get(this.chainIdFor(voucher.channelId, voucher.chainId))?.deployment ?? null;
+  }
+
+  /**
+   * Check that every provider key (active and retired) signs as its
+   * address. Call once at startup: a remote signer is otherwise trusted
+   * on REMOTE_SIGNER_ADDRESS alone.
+   */
+  async verifySigners(): Promise<void> {
+    for (const account of this.allAccounts()) {
+      await verifySigner(account);
+    }
+    console.log(`[signer] Verified ${this.signerType} signer for ${this.account.address}`);
+  }
+
+  /**
+   * Our key for a channel's provider address: the active one or a retired one
+   */
+  private accountFor(provider: Address): LocalAccount | null {
+    return this.allAccounts().find(account => isAddressEqual(account.address, provider)) ?? null;
+  }
+
+  /**
+   * Active key first, then retired keys
+   */
+  private allAccounts(): LocalAccount[] {
+    return [this.account, ...this.retiredAccounts];
+  }
+
+  /**
+   * Chain of a channel: as given, else where it was first seen, else CHAIN_ID
+   */
+  private chainIdFor(channelId: Hash, chainId?: number): number {
+    return chainId ?? this.storage.getChannel(channelId)?.chainId ?? this.config.chainId;
+  }
+
+  /**
+   * Parse voucher from header (JSON or compact token)
+   */
+  parseVoucherHeader(header: string): VoucherHeader | null {
+    return decodeVoucher(header);
+  }
+
+  /**
+   * Acquire exclusive use of a channel for one paid request.
+   * 
+   * Hold the lock from validateVoucher until storeVoucher (or failure) and
+   * always call the returned release. Returns null if the channel stays
+   * busy: immediately with CHANNEL_CONCURRENCY=reject, otherwise after
+   * waiting CHANNEL_LOCK_TIMEOUT seconds in line.
+   */
+  acquireChannel(channelId: Hash): Promise<ReleaseChannel | null> {
+    const waitMs = this.config.channelConcurrency === 'reject'
+      ? 0
+      : (this.config.channelLockTimeout ?? DEFAULT_CHANNEL_LOCK_TIMEOUT) * 1000;
+    return this.channelLock.acquire(channelId, waitMs);
+  }
+
+  /**
+   * Channel lock metrics (held channels, queued requests)
+   */
+  getChannelLockStats() {
+    return this.channelLock.getStats();
+  }
+
+  /**
+   * Validate a voucher.
+   * 
+   * Errors are payment problems (402) except `rpc_unavailable` when the
+   * channel cannot be read from the chain and `channel_reconciling`
+   * until startup reconciliation has merged the channel.
+   */
+  async validateVoucher(
+    voucher: VoucherHeader,
+    requiredAmount: bigint
+  ): Promise<{
+    valid: boolean;
+    error?: DrainErrorCode;
+    channel?: ChannelState;
+    newTotal?: bigint;
+  }> {
+    let amount: bigint;
+    let nonce: bigint;
+    try {
+      amount = BigInt(voucher.amount);
+      nonce = BigInt(voucher.nonce);
+    } catch {
+      return { valid: false, error: 'invalid_voucher_format' };
+    }
+
+    const ctx = this.chains.get(this.chainIdFor(voucher.channelId, voucher.chainId));
+    if (!ctx) {
+      return { valid: false, error: 'unsupported_chain' };
+    }
+
+    // Refuse a channel until the first reconciliation has merged it. After a
+    // failed attempt, channels it did not reach are checked against on-chain
+    // claimed and the durable watermark (step 6) while it is retried.
+    if (!ctx.reconciled) {
+      this.startReconciliation();
+      if (ctx.lastReconcile === null && !ctx.reconciledChannels.has(voucher.channelId.toLowerCase())) {
+        return { valid: false, error: 'channel_reconciling' };
+      }
+    }
+
+    try {
+      // 1. Get channel from cache or contract
+      let channelData = await this.getOnChainChannel(ctx, voucher.channelId);
+
+      // 2. Check channel exists
+      if (channelData.consumer === '0x0000000000000000000000000000000000000000') {
+        return { valid: false, error: 'channel_not_found' };
+      }
+
+      // 3. Check we are the provider (active or retired key)
+      if (!this.accountFor(channelData.provider)) {
+        return { valid: false, error: 'wrong_provider' };
+      }
+
+      // 4. Check channel is not expired or about to expire (consumer could reclaim)
+      const now = Math.floor(Date.now() / 1000);
+      const expiry = Number(channelData.expiry);
+      if (expiry <= now) {
+        return { valid: false, error: 'channel_expired' };
+      }
+      if (expiry - now < (this.config.channelExpiryWindow ?? DEFAULT_CHANNEL_EXPIRY_WINDOW)) {
+        return { valid: false, error: 'channel_expiring' };
+      }
+
+      // 5. Get or create local channel state
+      let channelState = this.storage.getChannel(voucher.channelId);
+      
+      if (!channelState) {
+        channelState = {
+          channelId: voucher.channelId,
+          chainId: ctx.deployment.chainId,
+          consumer: channelData.consumer,
+          deposit: channelData.deposit,
+          totalCharged: 0n,
+          expiry: Number(channelData.expiry),
+          createdAt: Date.now(),
+          lastActivityAt: Date.now(),
+        };
+      } else if (channelState.closedAt) {
+        // Closed on-chain (ChannelClosed event): later vouchers can never be claimed
+        return { valid: false, error: 'channel_closed' };
+      } else if (!channelState.expiry) {
+        // Backfill expiry for channels created before this update
+        channelState.expiry = Number(channelData.expiry);
+      }
+      if (channelState.chainId === undefined) {
+        channelState.chainId = ctx.deployment.chainId;
+      }
+
+      // 6. Reconcile with on-chain claims (e.g. made by another instance) and the durable watermark
+      const watermark = this.watermarks.get(voucher.channelId);
+      const floor = maxOf(channelData.claimed, watermark?.charged) ?? 0n;
+      if (floor > channelState.totalCharged) {
+        console.warn(
+          `[reconcile] Channel ${voucher.channelId}: on-chain claimed ${channelData.claimed} / ` +
+          `watermark ${watermark?.charged ?? 0n} exceeds local total ${channelState.totalCharged}, catching up`
+        );
+        channelState.totalCharged = floor;
+      }
+
+      // 7. Check voucher amount covers required on top of settled and reserved
+      const previousTotal = channelState.totalCharged + this.channelHolds.getReserved(voucher.channelId);
+      const expectedTotal = previousTotal + requiredAmount;
+      
+      if (amount < expectedTotal) {
+        return {
+          valid: false,
+          error: 'insufficient_funds',
+          channel: channelState,
+        };
+      }
+
+      // 8. Check amount doesn't exceed deposit (re-read in case of a top-up since caching)
+      if (amount > channelData.deposit) {
+        channelData = await this.getOnChainChannel(ctx, voucher.channelId, true);
+      }
+      if (amount > channelData.deposit) {
+        return {
+          valid: false,
+          error: 'exceeds_deposit',
+          channel: channelState,
+        };
+      }
+
+      // 9. Check nonce is higher than last seen (voucher log or watermark)
+      const lastNonce = maxOf(channelState.lastVoucher?.nonce, watermark?.nonce);
+      if (lastNonce !== undefined && nonce <= lastNonce) {
+        return {
+          valid: false,
+          error: 'invalid_nonce',
+          channel: channelState,
+        };
+      }
+
+      // 10. Hold a session key signature to its delegation
+      const grant = this.acceptsSessionKeys() ? await this.findSessionKey(ctx, voucher, amount, nonce) : null;
+      if (grant) {
+        if (grant.expiry <= now) {
+          return { valid: false, error: 'session_key_expired', channel: channelState };
+        }
+        if (amount > grant.maxAmount) {
+          return { valid: false, error: 'session_key_limit', channel: channelState };
+        }
+      }
+
+      // 11. Verify consumer signature (EOA, or EIP-1271 / ERC-6492 contract wallet).
+      // claim() checks vouchers against the consumer, so session-key vouchers
+      // are only accepted if the consumer's wallet accepts them too.
+      const isValid = await this.verifyConsumerSignature(ctx, voucher.channelId, channelData.consumer, {
+        domain: this.typedDataDomain(ctx),
+        types: EIP712_VOUCHER_TYPES,
+        primaryType: 'Voucher',
+        message: { channelId: voucher.channelId, amount, nonce },
+        signature: voucher.signature,
+      });
+
+      if (!isValid) {
+        return { valid: false, error: grant ? 'session_key_unsupported' : 'invalid_signature' };
+      }
+
+      return {
+        valid: true,
+        channel: channelState,
+        newTotal: amount,
+      };
+    } catch (error) {
+      console.error('Voucher validation error:', error);
+      // Only chain reads throw viem errors past this point
+      return {
+        valid: false,
+        error: error instanceof BaseError ? 'rpc_unavailable' : 'validation_error',
+      };
+    }
+  }
+
+  /**
+   * Whether vouchers signed by delegated session keys are accepted
+   */
+  acceptsSessionKeys(): boolean {
+    return this.config.sessionKeys ?? false;
+  }
+
+  /**
+   * Register a session key delegation signed by the channel consumer.
+   * 
+   * Later vouchers signed by the session key are accepted by
+   * validateVoucher up to maxAmount until expiry, as long as the
+   * consumer's contract wallet accepts them via EIP-1271. EOA consumers
+   * are refused: claim() could never settle their session-key vouchers.
+   */
+  async registerSessionKey(
+    delegation: SessionKeyDelegation
+  ): Promise<{ registered: boolean; error?: DrainErrorCode; grant?: SessionKeyGrant }> {
+    // 1. Check session keys are enabled
+    if (!this.acceptsSessionKeys()) {
+      return { registered: false, error: 'session_keys_disabled' };
+    }
+
+    const ctx = this.chains.get(this.chainIdFor(delegation.channelId, delegation.chainId));
+    if (!ctx) {
+      return { registered: false, error: 'unsupported_chain' };
+    }
+
+    // 2. Check delegation is not already expired
+    const now = Math.floor(Date.now() / 1000);
+    if (delegation.expiry <= now) {
+      return { registered: false, error: 'session_key_expired' };
+    }
+
+    try {
+      // 3. Check channel exists, is ours and still open
+      const channelData = await this.getOnChainChannel(ctx, delegation.channelId);
+      if (channelData.consumer === '0x0000000000000000000000000000000000000000') {
+        return { registered: false, error: 'channel_not_found' };
+      }
+      if (!this.accountFor(channelData.provider)) {
+        return { registered: false, error: 'wrong_provider' };
+      }
+      if (Number(channelData.expiry) <= now) {
+        return { registered: false, error: 'channel_expired' };
+      }
+      if (this.storage.getChannel(delegation.channelId)?.closedAt) {
+        return { registered: false, error: 'channel_closed' };
+      }
+
+      // 4. Verify the consumer signed the delegation
+      const maxAmount = BigInt(delegation.maxAmount);
+      const isValid = await this.verifyConsumerSignature(ctx, delegation.channelId, channelData.consumer, {
+        domain: this.typedDataDomain(ctx),
+        types: EIP712_SESSION_KEY_TYPES,
+        primaryType: 'SessionKey',
+        message: {
+          channelId: delegation.channelId,
+          sessionKey: delegation.sessionKey,
+          maxAmount,
+          expiry: BigInt(delegation.expiry),
+        },
+        signature: delegation.signature,
+      });
+      if (!isValid) {
+        return { registered: false, error: 'invalid_signature' };
+      }
+
+      // 5. Only a contract wallet can accept session-key vouchers at claim()
+      const code = await ctx.rpc.read(client => client.getCode({ address: channelData.consumer }));
+      if ((!code || code === '0x') && !isErc6492Signature(delegation.signature)) {
+        return { registered: false, error: 'session_key_unsupported' };
+      }
+
+      // 6. Store the grant
+      const grant: SessionKeyGrant = {
+        channelId: delegation.channelId,
+        chainId: ctx.deployment.chainId,
+        sessionKey: delegation.sessionKey,
+        maxAmount,
+        expiry: delegation.expiry,
+        consumer: channelData.consumer,
+        registeredAt: Date.now(),
+      };
+      this.storage.addSessionKey(grant);
+      console.log(`[session-keys] Registered ${grant.sessionKey} for channel ${grant.channelId} until ${grant.expiry}`);
+
+      return { registered: true, grant };
+    } catch (error) {
+      console.error('Session key registration error:', error);
+      return {
+        registered: false,
+        error: error instanceof BaseError ? 'rpc_unavailable' : 'validation_error',
+      };
+    }
+  }
+
+  /**
+   * Session key grant whose key signed this voucher, if any
+   */
+  private async findSessionKey(
+    ctx: ChainContext,
+    voucher: VoucherHeader,
+    amount: bigint,
+    nonce: bigint
+  ): Promise<SessionKeyGrant | null> {
+    const grants = this.storage.getSessionKeys(voucher.channelId)
+      .filter(g => g.chainId === ctx.deployment.chainId);
+    if (grants.length === 0) return null;
+
+    // Malformed or contract-wallet signatures don't recover: not a session key
+    const signer = await recoverTypedDataAddress({
+      domain: this.typedDataDomain(ctx),
+      types: EIP712_VOUCHER_TYPES,
+      primaryType: 'Voucher',
+      message: { channelId: voucher.channelId, amount, nonce },
+      signature: voucher.signature,
+    }).catch(() => null);
+    if (!signer) return null;
+
+    return grants.find(g => isAddressEqual(g.sessionKey, signer)) ?? null;
+  }
+
+  /**
+   * EIP-712 domain of a deployment's DrainChannel contract
+   */
+  private typedDataDomain(ctx: ChainContext) {
+    return {
+      name: EIP712_DOMAIN.name,
+      version: EIP712_DOMAIN.version,
+      chainId: ctx.deployment.chainId,
+      verifyingContract: ctx.deployment.drainAddress,
+    };
+  }
+
+  /**
+   * Verify typed data signed by a channel consumer.
+   * 
+   * EOA signatures are recovered locally. If that fails and the consumer
+   * has code (or the signature is ERC-6492 wrapped for an undeployed
+   * account), the signature is checked on-chain via EIP-1271
+   * isValidSignature. The consumer kind is cached per channel, so EOA
+   * channels never pay for an RPC call.
+   */
+  private async verifyConsumerSignature(
+    ctx: ChainContext,
+    channelId: Hash,
+    consumer: Address,
+    signed: TypedDataDefinition & { signature: Hex }
+  ): Promise<boolean> {
+    const typedData = { ...signed, address: consumer };
+    const signature = signed.signature;
+
+    const key = `${ctx.deployment.chainId}:${channelId.toLowerCase()}`;
+    let kind = this.consumerKinds.get(key);
+
+    if (kind !== 'contract') {
+      // Malformed signatures throw: treat as invalid
+      if (await verifyTypedData(typedData).catch(() => false)) {
+        this.consumerKinds.set(key, 'eoa');
+        return true;
+      }
+      if (kind === 'eoa') return false;
+
+      const code = await ctx.rpc.read(client => client.getCode({ address: consumer }));
+      kind = (code && code !== '0x') || isErc6492Signature(signature) ? 'contract' : 'eoa';
+      this.consumerKinds.set(key, kind);
+      if (kind === 'eoa') return false;
+    }
+
+    // RPC failures throw and surface as rpc_unavailable
+    return ctx.rpc.read(client => client.verifyTypedData(typedData));
+  }
+
+  /**
+   * Store a valid voucher and update channel state
+   */
+  storeVoucher(
+    voucher: VoucherHeader,
+    channelState: ChannelState,
+    cost: bigint
+  ): void {
+    const storedVoucher: StoredVoucher = {
+      channelId: voucher.channelId,
+      chainId: channelState.chainId,
+      amount: BigInt(voucher.amount),
+      nonce: BigInt(voucher.nonce),
+      signature: voucher.signature,
+      consumer: channelState.consumer,
+      receivedAt: Date.now(),
+      claimed: false,
+    };
+
+    // Update channel state
+    channelState.totalCharged += cost;
+    channelState.lastVoucher = storedVoucher;
+    channelState.lastActivityAt = Date.now();
+
+    // Raise the durable watermark before the voucher log
+    this.watermarks.raise(voucher.channelId, channelState.chainId, storedVoucher.nonce, channelState.totalCharged);
+
+    // Store
+    this.storage.storeVoucher(storedVoucher);
+    this.storage.updateChannel(voucher.channelId, channelState);
+  }
+
+  /**
+   * Reserve up to `maxCost` of a validated voucher for an in-flight request.
+   * 
+   * The hold is capped at what the voucher still authorizes beyond settled
+   * charges and other holds. Settle it with the actual cost, or release it
+   * if the upstream call fails.
+   */
+  reserve(voucher: VoucherHeader, channelState: ChannelState, maxCost: bigint): ChannelHold {
+    const available = BigInt(voucher.amount)
+      - channelState.totalCharged
+      - this.channelHolds.getReserved(voucher.channelId);
+    const amount = maxCost < available ? maxCost : available;
+    return this.channelHolds.place(voucher.channelId, amount > 0n ? amount : 0n);
+  }
+
+  /**
+   * Settle a hold at the actual cost: store the voucher and drop the hold
+   */
+  settle(
+    hold: ChannelHold,
+    voucher: VoucherHeader,
+    channelState: ChannelState,
+    actualCost: bigint
+  ): { cost: bigint; total: bigint; remaining: bigint } {
+    if (!this.channelHolds.remove(hold)) {
+      throw new Error(`Hold ${hold.id} on channel ${hold.channelId} is no longer active`);
+    }
+
+    this.storeVoucher(voucher, channelState, actualCost);
+
+    return {
+      cost: actualCost,
+      total: channelState.totalCharged,
+      remaining: channelState.deposit - channelState.totalCharged,
+    };
+  }
+
+  /**
+   * Release a hold without charging (no-op once settled)
+   */
+  releaseHold(hold: ChannelHold): void {
+    this.channelHolds.remove(hold);
+  }
+
+  /**
+   * Settled vs reserved balances for every tracked channel
+   */
+  getChannelBalances(): Array<{
+    channelId: Hash;
+    chainId: number;
+    consumer: string;
+    deposit: bigint;
+    authorized: bigint;
+    settled: bigint;
+    reserved: bigint;
+    activeHolds: number;
+    sessionKeys: number;
+    expiry: number;
+    closedAt: number | null;
+  }> {
+    return this.storage.getChannels().map(channel => {
+      const holds = this.channelHolds.getHolds(channel.channelId);
+      return {
+        channelId: channel.channelId,
+        chainId: channel.chainId ?? this.config.chainId,
+        consumer: channel.consumer,
+        deposit: channel.deposit,
+        authorized: channel.lastVoucher?.amount ?? 0n,
+        settled: channel.totalCharged,
+        reserved: holds.reduce((sum, h) => sum + h.amount, 0n),
+        activeHolds: holds.length,
+        sessionKeys: this.storage.getSessionKeys(channel.channelId)
+          .filter(g => g.expiry * 1000 > Date.now()).length,
+        expiry: channel.expiry,
+        closedAt: channel.closedAt ?? null,
+      };
+    });
+  }
+
+  /**
+   * Hold metrics (open holds, total reserved)
+   */
+  getHoldStats() {
+    return this.channelHolds.getStats();
+  }
+
+  /**
+   * Register a streamed completion that accepts top-up vouchers.
+   * Returns the stream id; call closeStream when the stream ends.
+   */
+  openStream(voucher: VoucherHeader): string {
+    return this.streams.open(voucher).id;
+  }
+
+  /**
+   * Unregister a stream
+   */
+  closeStream(streamId: string): void {
+    this.streams.close(streamId);
+  }
+
+  /**
+   * Seconds a stream pauses at its limit waiting for a top-up (0 = disabled).
+   * The stream keeps its channel lock while paused, so keep this short.
+   */
+  getTopUpTimeout(): number {
+    return this.config.topUpTimeout ?? DEFAULT_TOPUP_TIMEOUT;
+  }
+
+  /**
+   * Wait for a voucher higher than `current` on a paused stream.
+   * Returns null if none arrives within VOUCHER_TOPUP_TIMEOUT.
+   */
+  awaitTopUp(streamId: string, current: VoucherHeader): Promise<VoucherHeader | null> {
+    return this.streams.wait(streamId, current, this.getTopUpTimeout() * 1000);
+  }
+
+  /**
+   * Accept a top-up voucher for an active stream.
+   * 
+   * The voucher must be for the stream's channel, raise both amount and
+   * nonce over the stream's current voucher, and pass validateVoucher.
+   */
+  async submitTopUp(
+    streamId: string,
+    voucher: VoucherHeader
+  ): Promise<{ accepted: boolean; error?: DrainErrorCode }> {
+    // 1. Check stream is active
+    const stream = this.streams.get(streamId);
+    if (!stream) {
+      return { accepted: false, error: 'stream_not_found' };
+    }
+
+    // 2. Check same channel
+    if (stream.channelId.toLowerCase() !== voucher.channelId.toLowerCase()) {
+      return { accepted: false, error: 'channel_mismatch' };
+    }
+
+    // 3. Check amount and nonce increase over the stream's voucher
+    if (BigInt(voucher.amount) <= BigInt(stream.voucher.amount)) {
+      return { accepted: false, error: 'topup_not_higher' };
+    }
+    if (BigInt(voucher.nonce) <= BigInt(stream.voucher.nonce)) {
+      return { accepted: false, error: 'invalid_nonce' };
+    }
+
+    // 4. Verify channel, deposit and signature
+    const validation = await this.validateVoucher(voucher, 0n);
+    if (!validation.valid) {
+      return { accepted: false, error: validation.error };
+    }
+
+    // 5. Hand it to the stream (stream may have ended meanwhile)
+    if (!this.streams.apply(streamId, voucher)) {
+      return { accepted: false, error: 'stream_not_found' };
+    }
+
+    return { accepted: true };
+  }
+
+  /**
+   * Stream metrics (active streams, streams paused for a top-up)
+   */
+  getStreamStats() {
+    return this.streams.getStats();
+  }
+
+  /**
+   * Claim payments for all channels above threshold.
+   * 
+   * Claims not worth CLAIM_GAS_FACTOR times their gas are skipped too,
+   * except on channels expiring within `bufferSeconds`; `forceAll`
+   * claims every channel with unclaimed value. Runs through the claim
+   * queue, after any claim run already in progress.
+   */
+  async claimPayments(forceAll: boolean = false, bufferSeconds: number = 3600): Promise<ClaimReport> {
+    return this.claimQueue.enqueue(
+      this.claimCandidates(bufferSeconds, forceAll).map(({ voucher, expiring, force }) => ({
+        channelId: voucher.channelId,
+        expiring,
+        force,
+      })),
+      'manual'
+    );
+  }
+
+  /**
+   * Dry run of claimPayments: plan and simulate every candidate claim
+   * without sending anything. Each planned claim carries the expected
+   * amount, gas estimate and, if the claim would revert, the revert reason.
+   * Sends nothing, so it does not wait for the claim queue.
+   */
+  async simulateClaims(forceAll: boolean = false, bufferSeconds: number = 3600): Promise<ClaimReport> {
+    return this.runClaims(this.claimCandidates(bufferSeconds, forceAll), true);
+  }
+
+  /**
+   * Highest voucher per channel, flagged if the channel expires within `bufferSeconds`
+   */
+  private claimCandidates(bufferSeconds: number, force: boolean): ClaimCandidate[] {
+    return Array.from(this.storage.getHighestVoucherPerChannel().values(), voucher => ({
+      voucher,
+      expiring: this.isExpiring(voucher.channelId, bufferSeconds),
+      force,
+    }));
+  }
+
+  /**
+   * Claim queue worker: claim the current highest voucher of each queued channel
+   */
+  private async processClaims(requests: ClaimRequest[]): Promise<ClaimReport> {
+    const highest = this.storage.getHighestVoucherPerChannel();
+    const candidates: ClaimCandidate[] = [];
+    for (const { channelId, expiring, force, threshold } of requests) {
+      const voucher = highest.get(channelId);
+      if (voucher) candidates.push({ voucher, expiring, force, threshold });
+    }
+    return this.runClaims(candidates);
+  }
+
+  /**
+   * Claim queue state, with the next nonce tracked per chain and provider key
+   */
+  getClaimQueueStats() {
+    return {
+      ...this.claimQueue.getStats(),
+      nonces: Array.from(this.chains.values(), ctx => ({
+        chainId: ctx.deployment.chainId,
+        nextNonces: Object.fromEntries(ctx.nonces),
+      })),
+    };
+  }
+
+  /**
+   * Queue channels for claiming (used by auto-claim and retries)
+   */
+  private enqueueClaims(
+    vouchers: StoredVoucher[],
+    expiring: (voucher: StoredVoucher) => boolean,
+    source: ClaimSource
+  ): Promise<ClaimReport> {
+    return this.claimQueue.enqueue(
+      vouchers.map(voucher => ({ channelId: voucher.channelId, expiring: expiring(voucher), force: false })),
+      source
+    );
+  }
+
+  /**
+   * Plan and send claims, grouped per chain (plan only if `dryRun`).
+   * Only the claim queue worker sends, so runs never overlap.
+   */
+  private async runClaims(candidates: ClaimCandidate[], dryRun: boolean = false): Promise<ClaimReport> {
+    const report: ClaimReport = { dryRun, planned: [], executed: [], transactions: [] };
+
+    const byChain = new Map<number, ClaimCandidate[]>();
+    for (const candidate of candidates) {
+      const chainId = this.chainIdFor(candidate.voucher.channelId, candidate.voucher.chainId);
+      byChain.set(chainId, [...(byChain.get(chainId) ?? []), candidate]);
+    }
+
+    for (const [chainId, group] of byChain) {
+      const ctx = this.chains.get(chainId);
+      if (!ctx) {
+        report.planned.push(...group.map(({ voucher, expiring }): PlannedClaim => ({
+          channelId: voucher.channelId,
+          chainId,
+          amount: voucher.amount,
+          nonce: voucher.nonce,
+          value: voucher.amount,
+          expiring,
+          action: 'skip',
+          reason: 'chain_not_accepted',
+        })));
+        continue;
+      }
+
+      const planned = await this.planClaims(ctx, group);
+      report.planned.push(...planned);
+      if (dryRun) continue;
+
+      const vouchers = new Map(group.map(c => [c.voucher.channelId, c.voucher]));
+      const executed = await this.executeClaims(ctx, planned.filter(p => p.action === 'claim'), vouchers);
+      report.executed.push(...executed);
+      report.transactions.push(...executed.flatMap(e => (e.txHash ? [e.txHash] : [])));
+    }
+
+    const toClaim = report.planned.filter(p => p.action === 'claim').length;
+    if (report.planned.length > 0 && !dryRun) {
+      console.log(
+        `[claim] Planned ${report.planned.length} channel(s): ${toClaim} to claim, ` +
+        `${report.planned.length - toClaim} skipped, ${report.transactions.length} transaction(s) sent`
+      );
+    }
+    return report;
+  }
+
+  /**
+   * Decide per voucher whether claiming is worth it: above threshold,
+   * unclaimed value left, simulation and gas estimate succeed, and value exceeds
+   * CLAIM_GAS_FACTOR times the gas cost. Expiring channels skip the
+   * threshold and gas checks; a candidate's own threshold (daily claim)
+   * replaces claimThreshold.
+   */
+  private async planClaims(ctx: ChainContext, candidates: ClaimCandidate[]): Promise<PlannedClaim[]> {
+    const { chainId, token } = ctx.deployment;
+    const claimThreshold = toTokenUnits(this.config.claimThreshold, token.decimals);
+    const factor = BigInt(Math.round((this.config.claimGasFactor ?? DEFAULT_CLAIM_GAS_FACTOR) * 100));
+    const nativePrice = this.config.nativeTokenPrice ?? DEFAULT_NATIVE_TOKEN_PRICE;
+    let gasPrice: bigint | null = null;
+
+    const planned: PlannedClaim[] = [];
+    for (const { voucher, expiring, force, threshold: thresholdOverride } of candidates) {
+      const threshold = thresholdOverride !== undefined ? toTokenUnits(thresholdOverride, token.decimals) : claimThreshold;
+      const claim: PlannedClaim = {
+        channelId: voucher.channelId,
+        chainId,
+        amount: voucher.amount,
+        nonce: voucher.nonce,
+        value: voucher.amount,
+        expiring,
+        action: 'skip',
+      };
+      planned.push(claim);
+
+      // 0. Claim in flight, backing off after a failure, or dead-lettered (retried only when forced)
+      if (voucher.claimStatus === 'pending') {
+        claim.reason = 'claim_pending';
+        continue;
+      }
+      if (voucher.claimStatus === 'dead_letter' && !force) {
+        claim.reason = 'dead_letter';
+        continue;
+      }
+      if (
+        (voucher.claimStatus === 'reverted' || voucher.claimStatus === 'dropped') && !force &&
+        Date.now() < (voucher.lastClaimAt ?? 0) + claimRetryDelay(voucher.claimAttempts ?? 1)
+      ) {
+        claim.reason = 'retry_backoff';
+        continue;
+      }
+
+      // 1. Threshold
+      if (!force && !expiring && voucher.amount < threshold) {
+        claim.reason = 'below_threshold';
+        continue;
+      }
+
+      try {
+        // 2. Value left to claim on-chain
+        const channel = await this.getOnChainChannel(ctx, voucher.channelId);
+        claim.value = voucher.amount > channel.claimed ? voucher.amount - channel.claimed : 0n;
+        if (claim.value === 0n) {
+          claim.reason = 'already_claimed';
+          continue;
+        }
+
+        // Only the channel's provider can claim: the active key or a retired one
+        const account = this.accountFor(channel.provider);
+        if (!account) {
+          claim.reason = 'wrong_provider';
+          continue;
+        }
+        claim.provider = account.address;
+
+        // 3. Simulate (revert reason for claims that would fail), then estimate gas
+        const call = {
+          address: ctx.deployment.drainAddress,
+          abi: DRAIN_CHANNEL_ABI,
+          functionName: 'claim',
+          args: [voucher.channelId, voucher.amount, voucher.nonce, voucher.signature],
+          account,
+        } as const;
+        await ctx.rpc.read(client => client.simulateContract(call));
+        claim.gas = await ctx.rpc.read(client => client.estimateContractGas(call));
+        gasPrice ??= await ctx.rpc.read(client => client.getGasPrice());
+        claim.gasCost = gasCostToTokenUnits(claim.gas * gasPrice, nativePrice, token.decimals);
+      } catch (error) {
+        const revert = error instanceof BaseError
+          ? error.walk(e => e instanceof ContractFunctionRevertedError) as ContractFunctionRevertedError | null
+          : null;
+        if (revert) {
+          claim.reason = 'reverted';
+          claim.revertReason = revert.reason ?? revert.data?.errorName ?? revert.signature ?? revert.shortMessage;
+        } else {
+          claim.reason = 'estimate_failed';
+          claim.error = error instanceof BaseError ? error.shortMessage : String(error);
+        }
+        continue;
+      }
+
+      // 4. Worth the gas
+      if (!force && !expiring && claim.value * 100n <= claim.gasCost * factor) {
+        claim.reason = 'not_profitable';
+        continue;
+      }
+
+      claim.action = 'claim';
+    }
+
+    return planned;
+  }
+
+  /**
+   * Send planned claims: batched through multicall(bytes[]) on deployments
+   * that support it, otherwise one claim() per channel.
+   * 
+   * Vouchers stay unclaimed (status pending) until the receipt confirms
+   * the claim; tracking continues in the background.
+   */
+  private async executeClaims(
+    ctx: ChainContext,
+    claims: PlannedClaim[],
+    vouchers: Map<Hash, StoredVoucher>
+  ): Promise<ExecutedClaim[]> {
+    const batchSize = ctx.deployment.multicall
+      ? Math.max(1, this.config.claimBatchSize ?? DEFAULT_CLAIM_BATCH_SIZE)
+      : 1;
+    const executed: ExecutedClaim[] = [];
+
+    // A transaction can only claim channels bound to its sender
+    const byProvider = new Map<Address, PlannedClaim[]>();
+    for (const claim of claims) {
+      const provider = claim.provider ?? this.account.address;
+      byProvider.set(provider, [...(byProvider.get(provider) ?? []), claim]);
+    }
+
+    for (const [provider, group] of byProvider) {
+      const account = this.accountFor(provider) ?? this.account;
+      for (let i = 0; i < group.length; i += batchSize) {
+        const batch = group.slice(i, i + batchSize).map(claim => vouchers.get(claim.channelId)!);
+        const calls = batch.map(voucher => encodeFunctionData({
+          abi: DRAIN_CHANNEL_ABI,
+          functionName: 'claim',
+          args: [voucher.channelId, voucher.amount, voucher.nonce, voucher.signature],
+        }));
+        const result: ExecutedClaim = {
+          chainId: ctx.deployment.chainId,
+          provider: account.address,
+          channelIds: batch.map(v => v.channelId),
+          batched: batch.length > 1,
+        };
+
+        try {
+          result.txHash = await ctx.walletClient.sendTransaction({
+            account,
+            to: ctx.deployment.drainAddress,
+            data: batch.length === 1
+              ? calls[0]
+              : encodeFunctionData({ abi: DRAIN_MULTICALL_ABI, functionName: 'multicall', args: [calls] }),
+            nonce: await this.takeNonce(ctx, account.address),
+          });
+
+          for (const voucher of batch) {
+            this.storage.updateClaim(voucher.channelId, voucher.nonce, {
+              claimStatus: 'pending',
+              claimTxHash: result.txHash,
+              claimAttempts: (voucher.claimAttempts ?? 0) + 1,
+              lastClaimAt: Date.now(),
+              claimError: undefined,
+            });
+          }
+          console.log(`[claim] Sent claim for ${result.channelIds.join(', ')}: ${result.txHash}`);
+
+          this.trackClaim(ctx, result.txHash, batch, account.address).catch(console.error);
+        } catch (error) {
+          result.error = error instanceof BaseError ? error.shortMessage : String(error);
+          // The nonce may or may not have been used: resync before the next send
+          ctx.nonces.delete(account.address);
+          console.error(`[claim] Failed to send claim for ${result.channelIds.join(', ')}:`, error);
+          for (const voucher of batch) {
+            this.storage.updateClaim(voucher.channelId, voucher.nonce, {
+              claimStatus: 'dropped',
+              claimAttempts: (voucher.claimAttempts ?? 0) + 1,
+              lastClaimAt: Date.now(),
+            });
+          }
+          this.failClaims(batch, 'dropped', result.error);
+        }
+        executed.push(result);
+      }
+    }
+
+    return executed;
+  }
+
+  /**
+   * Next wallet nonce of a provider key on this chain. Synced from the
+   * pending transaction count on first use and after a failed send, then
+   * counted locally so back-to-back transactions never reuse a nonce.
+   */
+  private async takeNonce(ctx: ChainContext, address: Address): Promise<number> {
+    const nonce = ctx.nonces.get(address) ?? await ctx.rpc.read(client =>
+      client.getTransactionCount({ address, blockTag: 'pending' })
+    );
+    ctx.nonces.set(address, nonce + 1);
+    return nonce;
+  }
+
+  /**
+   * Follow a claim transaction to a receipt: confirmed vouchers are marked
+   * claimed, reverted ones retried. A transaction without a receipt after
+   * CLAIM_RECEIPT_TIMEOUT is re-sent with bumped fees (same nonce), up to
+   * MAX_FEE_BUMPS times. It counts as dropped only once the node it was
+   * sent through misses it DROP_CONFIRMATIONS times in a row. A dropped or
+   * abandoned transaction resyncs the sender's nonce before the next send.
+   */
+  private async trackClaim(ctx: ChainContext, hash: Hash, vouchers: StoredVoucher[], sender?: Address): Promise<void> {
+    let current = hash;
+    let bumps = 0;
+
+    // Sender unknown (resumed after a restart): resync every key
+    const resyncNonce = () => (sender ? ctx.nonces.delete(sender) : ctx.nonces.clear());
+
+    for (;;) {
+      try {
+        const receipt = await ctx.publicClient.waitForTransactionReceipt({
+          hash: current,
+          timeout: CLAIM_RECEIPT_TIMEOUT * 1000,
+          onReplaced: replacement => {
+            current = replacement.transaction.hash;
+          },
+        });
+
+        if (receipt.status === 'success') {
+          for (const voucher of vouchers) {
+            this.storage.markClaimed(voucher.channelId, receipt.transactionHash, voucher.nonce);
+            ctx.channelCache.invalidate(voucher.channelId);
+            console.log(`[claim] Confirmed ${voucher.amount} from channel ${voucher.channelId}: ${receipt.transactionHash}`);
+          }
+          this.requestSweep(ctx);
+        } else {
+          this.failClaims(vouchers, 'reverted', `Reverted in block ${receipt.blockNumber}: ${receipt.transactionHash}`);
+        }
+        return;
+      } catch (error) {
+        if (!(error instanceof WaitForTransactionReceiptTimeoutError)) {
+          console.warn(`[claim] Waiting for ${current} failed: ${error instanceof BaseError ? error.shortMessage : error}`);
+        }
+      }
+
+      // No receipt yet: still in the mempool of the node it was sent through?
+      const tx = await this.findClaimTransaction(ctx, current);
+      if (tx === undefined) continue;
+      if (tx === null) {
+        resyncNonce();
+        this.failClaims(vouchers, 'dropped', `Transaction ${current} dropped from the mempool`);
+        return;
+      }
+      sender = tx.from;
+
+      if (bumps >= MAX_FEE_BUMPS) {
+        resyncNonce();
+        this.failClaims(vouchers, 'dropped', `Transaction ${current} still pending after ${bumps} fee bump(s)`);
+        return;
+      }
+      bumps++;
+
+      // Stuck: replace with higher fees
+      try {
+        current = await ctx.walletClient.sendTransaction({
+          account: this.accountFor(tx.from) ?? this.account,
+          to: ctx.deployment.drainAddress,
+          data: tx.input,
+          nonce: tx.nonce,
+          gas: tx.gas,
+          ...(tx.maxFeePerGas !== undefined && tx.maxPriorityFeePerGas !== undefined
+            ? {
+              maxFeePerGas: tx.maxFeePerGas * FEE_BUMP_PERCENT / 100n,
+              maxPriorityFeePerGas: tx.maxPriorityFeePerGas * FEE_BUMP_PERCENT / 100n,
+            }
+            : { gasPrice: (tx.gasPrice ?? 0n) * FEE_BUMP_PERCENT / 100n }),
+        });
+        for (const voucher of vouchers) {
+          this.storage.updateClaim(voucher.channelId, voucher.nonce, { claimStatus: 'pending', claimTxHash: current });
+        }
+        console.warn(`[claim] ${tx.hash} stuck, re-sent with ${FEE_BUMP_PERCENT}% fees: ${current}`);
+      } catch (error) {
+        // The original may have been mined meanwhile (nonce too low): keep waiting on it
+        console.warn(`[claim] Fee bump for ${tx.hash} failed: ${error instanceof BaseError ? error.shortMessage : error}`);
+      }
+    }
+  }
+
+  /**
+   * Look a claim transaction up on the claim RPC. Null once it was missing
+   * DROP_CONFIRMATIONS times in a row, undefined if the lookup failed.
+   */
+  private async findClaimTransaction(ctx: ChainContext, hash: Hash) {
+    for (let misses = 0; ; ) {
+      try {
+        return await ctx.claimClient.getTransaction({ hash });
+      } catch (error) {
+        if (!(error instanceof TransactionNotFoundError)) return undefined;
+        if (++misses >= DROP_CONFIRMATIONS) return null;
+        await new Promise(resolve => setTimeout(resolve, DROP_RECHECK_DELAY * 1000));
+      }
+    }
+  }
+
+  /**
+   * Record a failed claim: retried with backoff, or dead-lettered once
+   * CLAIM_MAX_ATTEMPTS is reached
+   */
+  private failClaims(vouchers: StoredVoucher[], status: 'reverted' | 'dropped', error: string): void {
+    const maxAttempts = this.config.claimMaxAttempts ?? DEFAULT_CLAIM_MAX_ATTEMPTS;
+
+    for (const voucher of vouchers) {
+      const stored = this.storage.updateClaim(voucher.channelId, voucher.nonce, { claimStatus: status, claimError: error });
+      const attempts = stored?.claimAttempts ?? 1;
+
+      if (attempts >= maxAttempts) {
+        this.storage.updateClaim(voucher.channelId, voucher.nonce, { claimStatus: 'dead_letter' });
+        console.error(`[claim] Channel ${voucher.channelId} dead-lettered after ${attempts} attempt(s): ${error}`);
+      } else {
+        console.warn(`[claim] Channel ${voucher.channelId} ${status} (attempt ${attempts}/${maxAttempts}): ${error}`);
+        this.scheduleClaimRetry(claimRetryDelay(attempts));
+      }
+    }
+  }
+
+  private claimRetryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Retry failed claims once their backoff has passed
+   */
+  private scheduleClaimRetry(delayMs: number): void {
+    if (this.claimRetryTimer) return;
+
+    this.claimRetryTimer = setTimeout(() => {
+      this.claimRetryTimer = null;
+      const retries = Array.from(this.storage.getHighestVoucherPerChannel().values())
+        .filter(v => v.claimStatus === 'reverted' || v.claimStatus === 'dropped');
+      if (retries.length === 0) return;
+
+      this.enqueueClaims(retries, voucher => this.isExpiring(voucher.channelId), 'retry')
+        .then(() => {
+          // Retries still backing off get another turn
+          const waiting = Array.from(this.storage.getHighestVoucherPerChannel().values())
+            .filter(v => v.claimStatus === 'reverted' || v.claimStatus === 'dropped');
+          if (waiting.length > 0) {
+            this.scheduleClaimRetry(Math.min(...waiting.map(v => claimRetryDelay(v.claimAttempts ?? 1))));
+          }
+        })
+        .catch(console.error);
+    }, delayMs);
+    this.claimRetryTimer.unref?.();
+  }
+
+  /**
+   * Sweep the token balance above SWEEP_FLOAT of every provider key
+   * (active and retired) to TREASURY_ADDRESS on a chain (default: CHAIN_ID).
+   * Runs in the claim queue, so it never races a claim for a wallet nonce.
+   * Keys without a treasury, with a sweep still pending or with an excess
+   * below SWEEP_MIN_AMOUNT are left alone.
+   */
+  async sweep(chainId?: number): Promise<SweepRecord[]> {
+    const ctx = this.chains.get(chainId ?? this.config.chainId);
+    if (!ctx || !this.config.treasuryAddress) return [];
+    return this.claimQueue.runExclusive(() => this.sweepChain(ctx));
+  }
+
+  /**
+   * Queue one sweep per chain after confirmed claims
+   */
+  private requestSweep(ctx: ChainContext): void {
+    if (!this.config.treasuryAddress || ctx.sweepQueued) return;
+    ctx.sweepQueued = true;
+
+    this.claimQueue
+      .runExclusive(() => {
+        ctx.sweepQueued = false;
+        return this.sweepChain(ctx);
+      })
+      .catch(error => console.error('[sweep] Sweep failed:', error));
+  }
+
+  /**
+   * Sweep every provider key on a chain
+   */
+  private async sweepChain(ctx: ChainContext): Promise<SweepRecord[]> {
+    const sweeps: SweepRecord[] = [];
+    for (const account of this.allAccounts()) {
+      const sweep = await this.sweepAccount(ctx, account);
+      if (sweep) sweeps.push(sweep);
+    }
+    return sweeps;
+  }
+
+  /**
+   * Transfer one key's excess token balance to the treasury and track the receipt
+   */
+  private async sweepAccount(ctx: ChainContext, account: LocalAccount): Promise<SweepRecord | null> {
+    const treasury = this.config.treasuryAddress;
+    if (!treasury) return null;
+
+    const { chainId, token } = ctx.deployment;
+
+    // 1. One sweep in flight per chain and key: its balance has not left yet
+    if (this.storage.getSweeps().some(s =>
+      s.chainId === chainId && s.status === 'pending' && isAddressEqual(s.from, account.address)
+    )) {
+      return null;
+    }
+
+    // 2. Excess over the float
+    const balance = await ctx.rpc.read(client => client.readContract({
+      address: token.address,
+      abi: erc20Abi,
+      functionName: 'balanceOf',
+      args: [account.address],
+    }));
+    const float = toTokenUnits(this.config.sweepFloat ?? 0n, token.decimals);
+    const amount = balance - float;
+    if (amount <= 0n || amount < toTokenUnits(this.config.sweepMinAmount ?? DEFAULT_SWEEP_MIN_AMOUNT, token.decimals)) {
+      return null;
+    }
+
+    // 3. Transfer
+    const sweep: SweepRecord = {
+      chainId,
+      token: token.address,
+      from: account.address,
+      to: treasury,
+      amount,
+      balance,
+      status: 'pending',
+      createdAt: Date.now(),
+    };
+    try {
+      sweep.txHash = await ctx.walletClient.sendTransaction({
+        account,
+        to: token.address,
+        data: encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [treasury, amount] }),
+        nonce: await this.takeNonce(ctx, account.address),
+      });
+      console.log(`[sweep] Sent ${amount} ${token.symbol} from ${account.address} to treasury ${treasury} on chain ${chainId}: ${sweep.txHash}`);
+    } catch (error) {
+      ctx.nonces.delete(account.address);
+      sweep.status = 'failed';
+      sweep.error = error instanceof BaseError ? error.shortMessage : String(error);
+      sweep.settledAt = Date.now();
+      console.error(`[sweep] Failed to send sweep on chain ${chainId}:`, error);
+    }
+    this.storage.addSweep(sweep);
+
+    // 4. Receipt in the background
+    if (sweep.txHash) this.trackSweep(ctx, sweep.txHash).catch(console.error);
+    return sweep;
+  }
+
+  /**
+   * Follow a sweep transaction to a receipt
+   */
+  private async trackSweep(ctx: ChainContext, hash: Hash): Promise<void> {
+    try {
+      const receipt = await ctx.publicClient.waitForTransactionReceipt({ hash, timeout: SWEEP_RECEIPT_TIMEOUT * 1000 });
+      if (receipt.status === 'success') {
+        this.storage.updateSweep(hash, { status: 'confirmed', settledAt: Date.now() });
+        console.log(`[sweep] Confirmed ${hash}`);
+      } else {
+        this.storage.updateSweep(hash, { status: 'failed', error: `Reverted in block ${receipt.blockNumber}`, settledAt: Date.now() });
+        console.error(`[sweep] Reverted: ${hash}`);
+      }
+    } catch (error) {
+      // No receipt: free the chain for the next sweep, which re-reads the balance
+      const message = error instanceof BaseError ? error.shortMessage : String(error);
+      this.storage.updateSweep(hash, { status: 'failed', error: message, settledAt: Date.now() });
+      console.error(`[sweep] No receipt for ${hash}: ${message}`);
+    }
+  }
+
+  /**
+   * Treasury settings (null if sweeping is off)
+   */
+  getTreasury(): { address: Address; float: bigint; minAmount: bigint } | null {
+    if (!this.config.treasuryAddress) return null;
+    return {
+      address: this.config.treasuryAddress,
+      float: this.config.sweepFloat ?? 0n,
+      minAmount: this.config.sweepMinAmount ?? DEFAULT_SWEEP_MIN_AMOUNT,
+    };
+  }
+
+  /**
+   * Resume tracking claims (and sweeps) left pending by a previous run
+   */
+  resumePendingClaims(): void {
+    const byTx = new Map<Hash, StoredVoucher[]>();
+    for (const voucher of this.storage.getPendingClaims()) {
+      if (!voucher.claimTxHash) continue;
+      byTx.set(voucher.claimTxHash, [...(byTx.get(voucher.claimTxHash) ?? []), voucher]);
+    }
+
+    for (const [hash, vouchers] of byTx) {
+      const ctx = this.chains.get(this.chainIdFor(vouchers[0].channelId, vouchers[0].chainId));
+      if (!ctx) continue;
+      console.log(`[claim] Resuming pending claim ${hash} (${vouchers.length} channel(s))`);
+      this.trackClaim(ctx, hash, vouchers).catch(console.error);
+    }
+
+    for (const sweep of this.storage.getSweeps()) {
+      const ctx = this.chains.get(sweep.chainId);
+      if (sweep.status !== 'pending' || !sweep.txHash || !ctx) continue;
+      console.log(`[sweep] Resuming pending sweep ${sweep.txHash}`);
+      this.trackSweep(ctx, sweep.txHash).catch(console.error);
+    }
+  }
+
+  /**
+   * Whether a channel expires within the default auto-claim buffer
+   */
+  private isExpiring(channelId: Hash, bufferSeconds: number = 3600): boolean {
+    const expiry = this.storage.getChannel(channelId)?.expiry;
+    return !!expiry && expiry - Math.floor(Date.now() / 1000) <= bufferSeconds;
+  }
+
+  /**
+   * Read a channel from the contract, served from cache unless `fresh`.
+   * Unknown channels are never cached.
+   */
+  private async getOnChainChannel(ctx: ChainContext, channelId: Hash, fresh: boolean = false): Promise<OnChainChannel> {
+    if (!fresh) {
+      const cached = ctx.channelCache.get(channelId);
+      if (cached) return cached;
+    }
+
+    const channel = await ctx.rpc.readQuorum(client => client.readContract({
+      address: ctx.deployment.drainAddress,
+      abi: DRAIN_CHANNEL_ABI,
+      functionName: 'getChannel',
+      args: [channelId],
+    })) as OnChainChannel;
+
+    if (channel.consumer !== '0x0000000000000000000000000000000000000000') {
+      ctx.channelCache.set(channelId, channel);
+    }
+    return channel;
+  }
+
+  /**
+   * RPC endpoint health per chain (quorum, per-endpoint successes/failures/latency)
+   */
+  getRpcHealth() {
+    return Object.fromEntries(
+      Array.from(this.chains, ([chainId, ctx]) => [chainId, ctx.rpc.getHealth()])
+    );
+  }
+
+  /**
+   * Channel cache metrics across chains (size, hits, misses, hit rate)
+   */
+  getChannelCacheStats() {
+    const stats = Array.from(this.chains.values()).map(ctx => ctx.channelCache.getStats());
+    const hits = stats.reduce((sum, s) => sum + s.hits, 0);
+    const misses = stats.reduce((sum, s) => sum + s.misses, 0);
+    return {
+      size: stats.reduce((sum, s) => sum + s.size, 0),
+      ttlSeconds: stats[0].ttlSeconds,
+      hits,
+      misses,
+      hitRate: hits + misses > 0 ? hits / (hits + misses) : 0,
+    };
+  }
+
+  /**
+   * Channels, settled and unclaimed amounts per accepted chain
+   * (token units of that chain)
+   */
+  getChainStats(): Array<{
+    deployment: DrainDeployment;
+    activeChannels: number;
+    settled: bigint;
+    unclaimed: bigint;
+  }> {
+    const stats = new Map(Array.from(this.chains.keys(), chainId => [
+      chainId,
+      { deployment: this.chains.get(chainId)!.deployment, activeChannels: 0, settled: 0n, unclaimed: 0n },
+    ]));
+
+    for (const channel of this.storage.getChannels()) {
+      const entry = stats.get(channel.chainId ?? this.config.chainId);
+      if (!entry) continue;
+      if (!channel.closedAt) entry.activeChannels++;
+      entry.settled += channel.totalCharged;
+    }
+
+    for (const [channelId, voucher] of this.storage.getHighestVoucherPerChannel()) {
+      const entry = stats.get(this.chainIdFor(channelId, voucher.chainId));
+      if (entry && !voucher.claimed) entry.unclaimed += voucher.amount;
+    }
+
+    return Array.from(stats.values());
+  }
+
+  /**
+   * Track our channels from contract events, one watcher per accepted chain:
+   * - ChannelOpened to one of our provider keys adds the channel
+   * - ChannelDeposited updates its deposit
+   * - ChannelClaimed catches its settled total up to on-chain claimed
+   * - ChannelClosed marks it closed, so it is no longer claimable
+   * Every event also invalidates the cached channel.
+   * 
+   * Catches up from the persisted block cursor (EVENT_LOOKBACK_BLOCKS back
+   * on first start), then subscribes with viem's contract event watcher.
+   * If the subscription fails, polls logs from the cursor every
+   * EVENT_POLL_INTERVAL seconds instead.
+   */
+  watchChannelEvents(): void {
+    for (const ctx of this.chains.values()) {
+      if (ctx.events.mode !== 'stopped') continue;
+      ctx.events.mode = 'catching_up';
+
+      this.syncChannelEvents(ctx)
+        .then(() => this.subscribeChannelEvents(ctx))
+        .catch(error => {
+          console.error(`[channel-events] Catch-up failed on ${ctx.deployment.name}, polling logs:`, error);
+          this.pollChannelEvents(ctx);
+        });
+    }
+  }
+
+  /**
+   * Stop watching contract events.
+   */
+  stopChannelEvents(): void {
+    for (const ctx of this.chains.values()) {
+      ctx.events.mode = 'stopped';
+      if (ctx.unwatchEvents) {
+        ctx.unwatchEvents();
+        ctx.unwatchEvents = null;
+      }
+    }
+  }
+
+  /**
+   * Event watcher state per chain: mode, block cursor, events seen
+   */
+  getChannelEventStatus(): Array<{
+    chainId: number;
+    mode: ChannelEventMode;
+    cursor: bigint | null;
+    events: number;
+    lastEventAt: number | null;
+    error: string | null;
+  }> {
+    return Array.from(this.chains.values(), ctx => ({
+      chainId: ctx.deployment.chainId,
+      mode: ctx.events.mode,
+      cursor: this.eventCursors.get(ctx.deployment.chainId),
+      events: ctx.events.count,
+      lastEventAt: ctx.events.lastEventAt,
+      error: ctx.events.error,
+    }));
+  }
+
+  /**
+   * Subscribe to new events after the cursor
+   */
+  private subscribeChannelEvents(ctx: ChainContext): void {
+    if (ctx.events.mode === 'stopped') return;
+    const { chainId, name } = ctx.deployment;
+    const cursor = this.eventCursors.get(chainId);
+
+    ctx.events.mode = 'subscription';
+    ctx.unwatchEvents = ctx.publicClient.watchContractEvent({
+      address: ctx.deployment.drainAddress,
+      abi: DRAIN_CHANNEL_EVENTS_ABI,
+      ...(cursor !== null && { fromBlock: cursor + 1n }),
+      onLogs: (logs) => {
+        // Handled in order, one batch at a time
+        ctx.events.handling = ctx.events.handling
+          .then(() => this.handleChannelEvents(ctx, logs))
+          .then(() => {
+            const block = maxOf(...logs.map(log => log.blockNumber ?? undefined));
+            if (block !== undefined) this.eventCursors.advance(chainId, block);
+          })
+          .catch(error => console.error(`[channel-events] Failed to apply events on ${name}:`, error));
+      },
+      onError: (error) => {
+        if (ctx.events.mode !== 'subscription') return;
+        console.error(`[channel-events] Subscription error on ${name}, falling back to log polling:`, error);
+        ctx.unwatchEvents?.();
+        this.pollChannelEvents(ctx);
+      },
+    });
+
+    console.log(`[channel-events] Watching open/deposit/claim/close events on ${name} from block ${cursor !== null ? cursor + 1n : 'latest'}`);
+  }
+
+  /**
+   * Fallback: poll logs from the cursor on an interval
+   */
+  private pollChannelEvents(ctx: ChainContext): void {
+    if (ctx.events.mode === 'stopped') return;
+    ctx.events.mode = 'polling';
+
+    const intervalMs = (this.config.eventPollInterval ?? DEFAULT_EVENT_POLL_INTERVAL) * 1000;
+    const timer = setInterval(() => {
+      this.syncChannelEvents(ctx).catch(error => {
+        console.error(`[channel-events] Log polling failed on ${ctx.deployment.name}:`, error);
+      });
+    }, intervalMs);
+    ctx.unwatchEvents = () => clearInterval(timer);
+
+    console.log(`[channel-events] Polling logs on ${ctx.deployment.name} every ${intervalMs / 1000}s`);
+  }
+
+  /**
+   * Apply all events from the cursor to the latest block, in getLogs
+   * chunks, advancing the cursor per chunk. Never runs twice at once.
+   */
+  private syncChannelEvents(ctx: ChainContext): Promise<void> {
+    ctx.events.syncing ??= (async () => {
+      const { chainId, drainAddress } = ctx.deployment;
+      try {
+        const latest = await ctx.rpc.read(client => client.getBlockNumber());
+        const cursor = this.eventCursors.get(chainId);
+        const lookback = BigInt(this.config.eventLookbackBlocks ?? DEFAULT_EVENT_LOOKBACK_BLOCKS);
+
+        const chunk = this.logChunk();
+
+        for (let from = cursor !== null ? cursor + 1n : latest > lookback ? latest - lookback : 0n; from <= latest; from += chunk) {
+          const to = from + chunk - 1n < latest ? from + chunk - 1n : latest;
+          const logs = await ctx.rpc.read(client => client.getContractEvents({
+            address: drainAddress,
+            abi: DRAIN_CHANNEL_EVENTS_ABI,
+            fromBlock: from,
+            toBlock: to,
+          }));
+          await this.handleChannelEvents(ctx, logs);
+          this.eventCursors.advance(chainId, to);
+        }
+        ctx.events.error = null;
+      } catch (error) {
+        ctx.events.error = error instanceof Error ? error.message : String(error);
+        throw error;
+      }
+    })().finally(() => {
+      ctx.events.syncing = null;
+    });
+    return ctx.events.syncing;
+  }
+
+  /**
+   * Apply channel events to local channel state
+   */
+  private async handleChannelEvents(ctx: ChainContext, logs: ChannelEventLog[]): Promise<void> {
+    const { chainId, name } = ctx.deployment;
+
+    for (const log of logs) {
+      const channelId = log.args.channelId;
+      if (!channelId) continue;
+      ctx.channelCache.invalidate(channelId);
+      ctx.events.count++;
+      ctx.events.lastEventAt = Date.now();
+
+      // Only our channels on this chain
+      const channel = this.storage.getChannel(channelId);
+      if (channel && (channel.chainId ?? this.config.chainId) !== chainId) continue;
+
+      switch (log.eventName) {
+        case 'ChannelOpened': {
+          const { consumer, provider, amount, expiry } = log.args;
+          if (channel || !provider || !consumer || !this.accountFor(provider)) break;
+          this.storage.updateChannel(channelId, {
+            channelId,
+            chainId,
+            consumer,
+            deposit: amount ?? 0n,
+            totalCharged: 0n,
+            expiry: Number(expiry ?? 0n),
+            createdAt: Date.now(),
+            lastActivityAt: Date.now(),
+          });
+          console.log(`[channel-events] Channel ${channelId} opened on ${name} by ${consumer}, deposit ${amount}`);
+          break;
+        }
+
+        case 'ChannelDeposited': {
+          if (!channel || channel.closedAt || log.args.newDeposit === undefined) break;
+          channel.deposit = log.args.newDeposit;
+          this.storage.updateChannel(channelId, channel);
+          break;
+        }
+
+        case 'ChannelClaimed': {
+          if (!channel || channel.closedAt) break;
+          const onChain = await this.getOnChainChannel(ctx, channelId, true);
+          if (onChain.claimed > channel.totalCharged) {
+            console.warn(`[channel-events] Channel ${channelId}: settled total ${channel.totalCharged} raised to claimed ${onChain.claimed}`);
+            channel.totalCharged = onChain.claimed;
+            this.storage.updateChannel(channelId, channel);
+          }
+          break;
+        }
+
+        case 'ChannelClosed': {
+          if (!channel || channel.closedAt) break;
+          channel.closedAt = Date.now();
+          this.storage.updateChannel(channelId, channel);
+          console.log(`[channel-events] Channel ${channelId} closed on ${name}, refund ${log.args.refund}; no longer claimable`);
+          break;
+        }
+      }
+    }
+  }
+
+  private reconcileStarted = false;
+
+  /**
+   * Start startup reconciliation in the background (idempotent).
+   * 
+   * Chains that fail to reconcile are retried every 30 seconds. Until the
+   * first attempt finishes, channels it has not merged yet are refused
+   * with channel_reconciling.
+   */
+  startReconciliation(): void {
+    if (this.reconcileStarted) return;
+    this.reconcileStarted = true;
+
+    const run = async () => {
+      const reports = await this.reconcileChannels();
+      if (reports.some(r => !r.reconciled)) {
+        setTimeout(run, RECONCILE_RETRY_DELAY * 1000).unref?.();
+      }
+    };
+    run().catch(console.error);
+  }
+
+  /**
+   * Rebuild per-channel watermarks on every chain not yet reconciled.
+   * 
+   * Settled totals are raised to on-chain `claimed` and the durable
+   * watermark; nonces to the highest of the voucher log, the watermark
+   * and our claim transactions in the last RECONCILE_LOOKBACK_BLOCKS.
+   */
+  async reconcileChannels(): Promise<ReconcileReport[]> {
+    const reports: ReconcileReport[] = [];
+
+    for (const ctx of this.chains.values()) {
+      if (ctx.reconciled) continue;
+
+      try {
+        ctx.lastReconcile = await this.reconcileChain(ctx);
+        ctx.reconciled = ctx.lastReconcile.reconciled;
+        if (ctx.reconciled) {
+          console.log(
+            `[reconcile] ${ctx.deployment.name}: ${ctx.lastReconcile.channels} channel(s) checked, ` +
+            `${ctx.lastReconcile.caughtUp} caught up, ${ctx.lastReconcile.claimEvents} claim event(s)`
+          );
+        } else {
+          console.error(`[reconcile] ${ctx.deployment.name} incomplete, retrying in ${RECONCILE_RETRY_DELAY}s: ${ctx.lastReconcile.error}`);
+        }
+      } catch (error) {
+        const message = error instanceof BaseError ? error.shortMessage : String(error);
+        ctx.lastReconcile = {
+          chainId: ctx.deployment.chainId,
+          reconciled: false,
+          channels: 0,
+          caughtUp: 0,
+          claimEvents: 0,
+          error: message,
+          finishedAt: Date.now(),
+        };
+        console.error(`[reconcile] ${ctx.deployment.name} failed, retrying in ${RECONCILE_RETRY_DELAY}s: ${message}`);
+      }
+      reports.push(ctx.lastReconcile);
+    }
+
+    return reports;
+  }
+
+  /**
+   * Reconcile every channel known on one chain. A failed log scan or
+   * channel read leaves the chain unreconciled, but every channel that
+   * could be read is still merged.
+   */
+  private async reconcileChain(ctx: ChainContext): Promise<ReconcileReport> {
+    const chainId = ctx.deployment.chainId;
+
+    // 1. Highest claimed nonce per channel from our claim transactions
+    const { claimedNonces, claimEvents, error: scanError } = await this.scanClaimedNonces(ctx);
+
+    // 2. Every channel known from the voucher log, watermarks or claim events
+    const channelIds = new Set<Hash>([
+      ...this.storage.getChannels().filter(c => (c.chainId ?? this.config.chainId) === chainId).map(c => c.channelId),
+      ...this.watermarks.getAll().filter(w => (w.chainId ?? this.config.chainId) === chainId).map(w => w.channelId),
+      ...claimedNonces.keys(),
+    ]);
+
+    // 3. Merge local state, watermark and chain
+    let caughtUp = 0;
+    let failed = 0;
+    for (const channelId of channelIds) {
+      let channelData: OnChainChannel;
+      try {
+        channelData = await this.getOnChainChannel(ctx, channelId, true);
+      } catch (error) {
+        failed++;
+        console.warn(`[reconcile] Channel ${channelId}: read failed: ${error instanceof BaseError ? error.shortMessage : error}`);
+        continue;
+      }
+      ctx.reconciledChannels.add(channelId.toLowerCase());
+      if (channelData.consumer === '0x0000000000000000000000000000000000000000') continue;
+      if (!this.accountFor(channelData.provider)) continue;
+
+      const channelState: ChannelState = this.storage.getChannel(channelId) ?? {
+        channelId,
+        chainId,
+        consumer: channelData.consumer,
+        deposit: channelData.deposit,
+        totalCharged: 0n,
+        expiry: Number(channelData.expiry),
+        createdAt: Date.now(),
+        lastActivityAt: Date.now(),
+      };
+      channelState.chainId ??= chainId;
+      channelState.deposit = channelData.deposit;
+      channelState.expiry = Number(channelData.expiry);
+
+      const watermark = this.watermarks.get(channelId);
+      const charged = maxOf(channelState.totalCharged, watermark?.charged, channelData.claimed)!;
+      if (charged > channelState.totalCharged) {
+        console.warn(`[reconcile] Channel ${channelId}: settled total ${channelState.totalCharged} raised to ${charged}`);
+        channelState.totalCharged = charged;
+        caughtUp++;
+      }
+      this.storage.updateChannel(channelId, channelState);
+
+      const nonce = maxOf(channelState.lastVoucher?.nonce, watermark?.nonce, claimedNonces.get(channelId));
+      if (nonce !== undefined) {
+        this.watermarks.raise(channelId, chainId, nonce, charged);
+      }
+    }
+
+    const errors = [
+      ...(scanError ? [`claim event scan: ${scanError}`] : []),
+      ...(failed > 0 ? [`${failed} channel read(s) failed`] : []),
+    ];
+    return {
+      chainId,
+      reconciled: errors.length === 0,
+      channels: channelIds.size,
+      caughtUp,
+      claimEvents,
+      ...(errors.length > 0 && { error: errors.join('; ') }),
+      finishedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Blocks per getLogs request
+   */
+  private logChunk(): bigint {
+    return BigInt(Math.max(1, this.config.reconcileLogChunk ?? DEFAULT_RECONCILE_LOG_CHUNK));
+  }
+
+  /**
+   * Scan our ChannelClaimed events and decode the claimed nonce from each
+   * claim transaction (claim() or multicall of claims). Claims sent any
+   * other way only contribute their amount (via on-chain claimed).
+   * A failed request ends the scan with what was found so far.
+   */
+  private async scanClaimedNonces(
+    ctx: ChainContext
+  ): Promise<{ claimedNonces: Map<Hash, bigint>; claimEvents: number; error?: string }> {
+    const claimedNonces = new Map<Hash, bigint>();
+    const lookback = BigInt(this.config.reconcileLookbackBlocks ?? DEFAULT_RECONCILE_LOOKBACK_BLOCKS);
+    if (lookback <= 0n) return { claimedNonces, claimEvents: 0 };
+
+    const chunk = this.logChunk();
+    let claimEvents = 0;
+
+    try {
+      const latest = await ctx.rpc.read(client => client.getBlockNumber());
+
+      for (let from = latest > lookback ? latest - lookback : 0n; from <= latest; from += chunk) {
+        const to = from + chunk - 1n < latest ? from + chunk - 1n : latest;
+        const logs = await ctx.rpc.read(client => client.getContractEvents({
+          address: ctx.deployment.drainAddress,
+          abi: DRAIN_CHANNEL_EVENTS_ABI,
+          eventName: 'ChannelClaimed',
+          args: { provider: this.allAccounts().map(account => account.address) },
+          fromBlock: from,
+          toBlock: to,
+        }));
+
+        for (const log of logs) {
+          claimEvents++;
+          const channelId = log.args.channelId;
+          if (!channelId) continue;
+
+          const tx = await ctx.rpc.read(client => client.getTransaction({ hash: log.transactionHash }));
+          for (const [claimedChannel, nonce] of decodeClaimNonces(tx.input)) {
+            if (claimedChannel.toLowerCase() !== channelId.toLowerCase()) continue;
+            claimedNonces.set(channelId, maxOf(claimedNonces.get(channelId), nonce)!);
+          }
+        }
+      }
+    } catch (error) {
+      return { claimedNonces, claimEvents, error: error instanceof BaseError ? error.shortMessage : String(error) };
+    }
+
+    return { claimedNonces, claimEvents };
+  }
+
+  /**
+   * Reconciliation status per chain
+   */
+  getReconcileStatus(): Array<{ chainId: number; reconciled: boolean; last: ReconcileReport | null }> {
+    return Array.from(this.chains.values(), ctx => ({
+      chainId: ctx.deployment.chainId,
+      reconciled: ctx.reconciled,
+      last: ctx.lastReconcile,
+    }));
+  }
+
+  /**
+   * Get provider address
+   */
+  getProviderAddress(): Address {
+    return this.account.address;
+  }
+
+  /**
+   * Retired provider addresses whose channels are still served and claimed
+   */
+  getRetiredProviderAddresses(): Address[] {
+    return this.retiredAccounts.map(account => account.address);
+  }
+
+  /**
+   * Where the provider key lives: raw, keystore or remote
+   */
+  getSignerType(): SignerOptions['type'] {
+    return this.signerType;
+  }
+
+  /**
+   * Get channel balance from contract
+   */
+  async getChannelBalance(channelId: Hash, chainId?: number): Promise<bigint> {
+    const ctx = this.chains.get(this.chainIdFor(channelId, chainId));
+    if (!ctx) throw new Error(`Chain ${chainId} is not accepted`);
+
+    const balance = await ctx.rpc.read(client => client.readContract({
+      address: ctx.deployment.drainAddress,
+      abi: DRAIN_CHANNEL_ABI,
+      functionName: 'getBalance',
+      args: [channelId],
+    }));
+    return balance as bigint;
+  }
+
+  /**
+   * Auto-claim channels that are expiring soon.
+   * 
+   * Claims ANY unclaimed channel where:
+   * - Expiry is within `bufferSeconds` from now (default: 1 hour)
+   * - There is at least one unclaimed voucher (regardless of threshold)
+   * 
+   * This protects the provider from losing earned funds when channels expire.
+   */
+  async claimExpiring(bufferSeconds: number = 3600): Promise<ClaimReport> {
+    return this.enqueueClaims(this.expiringVouchers(bufferSeconds), () => true, 'auto');
+  }
+
+  /**
+   * Highest unclaimed voucher of each channel expiring within `bufferSeconds`
+   */
+  private expiringVouchers(bufferSeconds: number): StoredVoucher[] {
+    const expiring: StoredVoucher[] = [];
+    const highest = this.storage.getHighestVoucherPerChannel();
+    const now = Math.floor(Date.now() / 1000);
+
+    for (const [channelId, voucher] of highest) {
+      const channel = this.storage.getChannel(channelId);
+      if (!channel || !channel.expiry) continue;
+
+      const timeLeft = channel.expiry - now;
+
+      // Skip channels that are not expiring soon
+      if (timeLeft > bufferSeconds) continue;
+
+      // Skip zero-value vouchers
+      if (voucher.amount <= 0n) continue;
+
+      const status = timeLeft <= 0 ? 'EXPIRED' : `expiring in ${Math.floor(timeLeft / 60)}min`;
+      console.log(`[auto-claim] Channel ${channelId} ${status}, claiming ${voucher.amount}...`);
+
+      expiring.push(voucher);
+    }
+
+    return expiring;
+  }
+
+  private autoClaimInterval: ReturnType<typeof setInterval> | null = null;
+  private autoClaimPolicy: AutoClaimPolicy | null = null;
+  private nextAutoClaimAt: number | null = null;
+  private lastAutoClaim: AutoClaimRun | null = null;
+  /** UTC date (YYYY-MM-DD) of the last completed daily claim */
+  private lastDailyClaim: string | null = null;
+
+  /**
+   * Start automatic claiming.
+   * 
+   * Every `intervalMinutes` (AUTO_CLAIM_INTERVAL, default 10) queues:
+   * - channels expiring within `bufferSeconds` (AUTO_CLAIM_EXPIRY_BUFFER,
+   *   default 1 hour), always
+   * - channels above CLAIM_THRESHOLD, if AUTO_CLAIM_THRESHOLD is set
+   * - once a day from AUTO_CLAIM_DAILY_HOUR, every channel above
+   *   AUTO_CLAIM_DAILY_MIN
+   * 
+   * Threshold and daily claims wait out AUTO_CLAIM_QUIET_HOURS, and
+   * AUTO_CLAIM_MAX_PER_RUN caps the channels per run, expiring first.
+   * Arguments override the config.
+   */
+  startAutoClaim(intervalMinutes?: number, bufferSeconds?: number): void {
+    if (this.autoClaimInterval) return;
+
+    const policy: AutoClaimPolicy = {
+      intervalMinutes: intervalMinutes ?? this.config.autoClaimInterval ?? DEFAULT_AUTO_CLAIM_INTERVAL,
+      expiryBufferSeconds: bufferSeconds ?? this.config.autoClaimExpiryBuffer ?? DEFAULT_AUTO_CLAIM_EXPIRY_BUFFER,
+      thresholdClaims: this.config.autoClaimThreshold ?? false,
+      maxClaimsPerRun: this.config.autoClaimMaxPerRun !== undefined ? Math.max(1, this.config.autoClaimMaxPerRun) : undefined,
+      quietHours: this.config.autoClaimQuietHours,
+      dailyClaimHour: this.config.autoClaimDailyHour,
+      dailyClaimMin: this.config.autoClaimDailyHour !== undefined ? this.config.autoClaimDailyMin ?? 0n : undefined,
+    };
+    this.autoClaimPolicy = policy;
+
+    console.log(
+      `[auto-claim] Started: checking every ${policy.intervalMinutes}min, ` +
+      `claiming channels expiring within ${policy.expiryBufferSeconds / 60}min` +
+      (policy.thresholdClaims ? ', and above threshold' : '') +
+      (policy.dailyClaimHour !== undefined ? `, daily claim from ${policy.dailyClaimHour}:00 UTC` : '') +
+      (policy.quietHours ? `, quiet ${formatQuietHours(policy.quietHours)}` : '') +
+      (policy.maxClaimsPerRun !== undefined ? `, at most ${policy.maxClaimsPerRun} channel(s) per run` : '')
+    );
+
+    const intervalMs = policy.intervalMinutes * 60 * 1000;
+    this.nextAutoClaimAt = Date.now() + intervalMs;
+    this.autoClaimInterval = setInterval(() => {
+      this.nextAutoClaimAt = Date.now() + intervalMs;
+      this.runAutoClaim(policy);
+    }, intervalMs);
+
+    // Also run immediately on start, after picking up claims left pending by a previous run
+    this.resumePendingClaims();
+    this.runAutoClaim(policy);
+  }
+
+  /**
+   * One auto-claim run: pick channels by policy and queue them
+   */
+  private async runAutoClaim(policy: AutoClaimPolicy): Promise<void> {
+    const now = new Date();
+    const today = now.toISOString().slice(0, 10);
+    const quiet = !!policy.quietHours && isQuietHour(policy.quietHours, now);
+    const daily = !quiet && policy.dailyClaimHour !== undefined &&
+      now.getUTCHours() >= policy.dailyClaimHour && this.lastDailyClaim !== today;
+    const run: AutoClaimRun = {
+      startedAt: now.getTime(),
+      finishedAt: 0,
+      quiet,
+      daily,
+      expiring: 0,
+      threshold: 0,
+      dailyClaims: 0,
+      deferred: 0,
+      transactions: 0,
+    };
+
+    try {
+      type AutoClaim = { voucher: StoredVoucher; reason: 'expiring' | 'threshold' | 'daily' };
+
+      // 1. Expiring channels, even in quiet hours
+      const picked: AutoClaim[] = this.expiringVouchers(policy.expiryBufferSeconds)
+        .map(voucher => ({ voucher, reason: 'expiring' }));
+      const expiringIds = new Set(picked.map(p => p.voucher.channelId));
+
+      // 2. Daily claim above the daily minimum, else threshold claims
+      if (daily || (policy.thresholdClaims && !quiet)) {
+        for (const voucher of this.storage.getHighestVoucherPerChannel().values()) {
+          if (expiringIds.has(voucher.channelId) || voucher.amount <= 0n) continue;
+          if (voucher.claimStatus === 'pending' || voucher.claimStatus === 'dead_letter') continue;
+          if (this.claimQueue.isQueued(voucher.channelId)) continue;
+          const ctx = this.chains.get(this.chainIdFor(voucher.channelId, voucher.chainId));
+          if (!ctx) continue;
+
+          const { decimals } = ctx.deployment.token;
+          if (daily && voucher.amount >= toTokenUnits(policy.dailyClaimMin ?? 0n, decimals)) {
+            picked.push({ voucher, reason: 'daily' });
+          } else if (policy.thresholdClaims && !quiet && voucher.amount >= toTokenUnits(this.config.claimThreshold, decimals)) {
+            picked.push({ voucher, reason: 'threshold' });
+          }
+        }
+      }
+
+      // 3. Expiring first, then largest first, up to the per-run cap
+      picked.sort((a, b) =>
+        Number(b.reason === 'expiring') - Number(a.reason === 'expiring') ||
+        (b.voucher.amount > a.voucher.amount ? 1 : b.voucher.amount < a.voucher.amount ? -1 : 0)
+      );
+      const selected = picked.slice(0, policy.maxClaimsPerRun ?? picked.length);
+      const deferred = picked.slice(selected.length);
+
+      run.expiring = selected.filter(p => p.reason === 'expiring').length;
+      run.threshold = selected.filter(p => p.reason === 'threshold').length;
+      run.dailyClaims = selected.filter(p => p.reason === 'daily').length;
+      run.deferred = deferred.length;
+      if (run.deferred > 0) {
+        console.log(`[auto-claim] ${run.deferred} channel(s) deferred to the next run (AUTO_CLAIM_MAX_PER_RUN=${policy.maxClaimsPerRun})`);
+      }
+
+      // 4. Queue them
+      const report = await this.claimQueue.enqueue(
+        selected.map(({ voucher, reason }) => ({
+          channelId: voucher.channelId,
+          expiring: reason === 'expiring',
+          force: false,
+          ...(reason === 'daily' && { threshold: policy.dailyClaimMin }),
+        })),
+        'auto'
+      );
+      run.transactions = report.transactions.length;
+      if (report.transactions.length > 0) {
+        console.log(
+          `[auto-claim] Sent ${report.transactions.length} claim transaction(s) ` +
+          `(${run.expiring} expiring, ${run.threshold} above threshold, ${run.dailyClaims} daily)`
+        );
+      }
+
+      // 5. The daily claim is done once its channels were all sent, none deferred
+      const dailyIds = new Set(selected.filter(p => p.reason === 'daily').map(p => p.voucher.channelId));
+      const dailyFailed = report.executed.some(tx => tx.error && tx.channelIds.some(id => dailyIds.has(id)));
+      if (daily && !dailyFailed && !deferred.some(p => p.reason === 'daily')) this.lastDailyClaim = today;
+    } catch (error) {
+      run.error = error instanceof Error ? error.message : String(error);
+      console.error('[auto-claim] Error during auto-claim check:', error);
+    } finally {
+      run.finishedAt = Date.now();
+      this.lastAutoClaim = run;
+    }
+  }
+
+  /**
+   * Auto-claim policy in effect, next run and the last run's outcome
+   */
+  getAutoClaimStatus() {
+    const policy = this.autoClaimPolicy;
+    return {
+      enabled: this.autoClaimInterval !== null,
+      policy,
+      quietNow: !!policy?.quietHours && isQuietHour(policy.quietHours),
+      nextRunAt: this.nextAutoClaimAt,
+      lastRun: this.lastAutoClaim,
+      lastDailyClaim: this.lastDailyClaim,
+    };
+  }
+
+  /**
+   * Stop automatic claiming.
+   */
+  stopAutoClaim(): void {
+    if (this.autoClaimInterval) {
+      clearInterval(this.autoClaimInterval);
+      this.autoClaimInterval = null;
+      this.nextAutoClaimAt = null;
+      console.log('[auto-claim] Stopped');
+    }
+  }
+}
+
+/**
+ * Largest of the defined values, undefined if none
+ */
+function maxOf(...values: Array<bigint | undefined>): bigint | undefined {
+  let max: bigint | undefined;
+  for (const value of values) {
+    if (value !== undefined && (max === undefined || value > max)) max = value;
+  }
+  return max;
+}
+
+/**
+ * (channelId, nonce) of each claim in a claim() or multicall(bytes[]) calldata
+ */
+function decodeClaimNonces(input: Hex): Array<[Hash, bigint]> {
+  try {
+    const call = decodeFunctionData({ abi: [...DRAIN_CHANNEL_ABI, ...DRAIN_MULTICALL_ABI], data: input });
+    if (call.functionName === 'claim') return [[call.args[0], call.args[2]]];
+    if (call.functionName === 'multicall') return call.args[0].flatMap(decodeClaimNonces);
+  } catch {
+    // Not a DrainChannel call
+  }
+  return [];
+}
+
+/**
+ * Backoff before retrying a failed claim (ms)
+ */
+function claimRetryDelay(attempts: number): number {
+  return Math.min(CLAIM_RETRY_BASE_DELAY * 2 ** (attempts - 1), 3600) * 1000;
+}
@@ -0,0 +1,157 @@
+/**
+ * DRAIN Environment
+ * 
+ * Optional DRAIN settings shared by all templates, so new tuning knobs
+ * don't have to be parsed in every template's config.ts.
+ */
+
+import { isAddress, type Address, type Hex } from 'viem';
+import type { DrainOptions, SignerOptions } from './types.js';
+import { parseQuietHours } from './claim-policy.js';
+
+const optionalEnv = (name: string): string | undefined => {
+  const value = process.env[name];
+  return value === undefined || value === '' ? undefined : value;
+};
+
+const optionalNumber = (name: string): number | undefined => {
+  const value = optionalEnv(name);
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) throw new Error(`Invalid ${name}: ${value}`);
+  return parsed;
+};
+
+const optionalBigInt = (name: string): bigint | undefined => {
+  const value = optionalEnv(name);
+  if (value === undefined) return undefined;
+  if (!/^[0-9]+$/.test(value)) throw new Error(`Invalid ${name}: ${value}. Must be an integer amount`);
+  return BigInt(value);
+};
+
+const optionalAddress = (name: string): Address | undefined => {
+  const value = optionalEnv(name);
+  if (value === undefined) return undefined;
+  if (!isAddress(value)) throw new Error(`Invalid ${name}: ${value}. Must be an address`);
+  return value;
+};
+
+const optionalList = (name: string): string[] | undefined => {
+  const value = optionalEnv(name);
+  if (value === undefined) return undefined;
+  return value.split(',').map(v => v.trim()).filter(Boolean);
+};
+
+const optionalBoolean = (name: string): boolean | undefined => {
+  const value = optionalEnv(name);
+  if (value === undefined) return undefined;
+  if (value !== 'true' && value !== 'false') throw new Error(`Invalid ${name}: ${value}. Must be true or false`);
+  return value === 'true';
+};
+
+const optionalChoice = <T extends string>(name: string, choices: readonly T[]): T | undefined => {
+  const value = optionalEnv(name);
+  if (value === undefined) return undefined;
+  if (!choices.includes(value as T)) throw new Error(`Invalid ${name}: ${value}. Must be one of: ${choices.join(', ')}`);
+  return value as T;
+};
+
+/**
+ * Read optional DRAIN settings from env.
+ * Unset variables are left undefined so DrainService defaults apply.
+ */
+export function loadDrainEnv(): DrainOptions {
+  const chainIds = optionalList('DRAIN_CHAINS')?.map(id => {
+    const chainId = Number(id);
+    if (!Number.isInteger(chainId)) throw new Error(`Invalid DRAIN_CHAINS entry: ${id}`);
+    return chainId;
+  });
+
+  const keystorePath = optionalEnv('KEYSTORE_PATH');
+  const remoteSignerUrl = optionalEnv('REMOTE_SIGNER_URL');
+  if (keystorePath && remoteSignerUrl) throw new Error('Set either KEYSTORE_PATH or REMOTE_SIGNER_URL, not both');
+
+  let signer: SignerOptions | undefined;
+  if (keystorePath) {
+    signer = {
+      type: 'keystore',
+      path: keystorePath,
+      password: optionalEnv('KEYSTORE_PASSWORD'),
+      passwordFile: optionalEnv('KEYSTORE_PASSWORD_FILE'),
+    };
+  } else if (remoteSignerUrl) {
+    const address = optionalAddress('REMOTE_SIGNER_ADDRESS');
+    if (!address) throw new Error('Missing env: REMOTE_SIGNER_ADDRESS (required with REMOTE_SIGNER_URL)');
+    signer = { type: 'remote', url: remoteSignerUrl, address, token: optionalEnv('REMOTE_SIGNER_TOKEN') };
+  }
+
+  // Retired keys, in the same modes as the active one
+  const retiredSigners: SignerOptions[] = [
+    ...(optionalList('RETIRED_PROVIDER_KEYS') ?? []).map((privateKey): SignerOptions => ({
+      type: 'raw',
+      privateKey: privateKey as Hex,
+    })),
+    ...(optionalList('RETIRED_KEYSTORE_PATHS') ?? []).map((path): SignerOptions => ({
+      type: 'keystore',
+      path,
+      password: optionalEnv('KEYSTORE_PASSWORD'),
+      passwordFile: optionalEnv('KEYSTORE_PASSWORD_FILE'),
+    })),
+  ];
+  const retiredRemote = optionalList('RETIRED_REMOTE_SIGNER_ADDRESSES');
+  if (retiredRemote) {
+    if (!remoteSignerUrl) throw new Error('RETIRED_REMOTE_SIGNER_ADDRESSES needs REMOTE_SIGNER_URL');
+    for (const address of retiredRemote) {
+      if (!isAddress(address)) throw new Error(`Invalid RETIRED_REMOTE_SIGNER_ADDRESSES entry: ${address}`);
+      retiredSigners.push({ type: 'remote', url: remoteSignerUrl, address, token: optionalEnv('REMOTE_SIGNER_TOKEN') });
+    }
+  }
+
+  const quietHours = optionalEnv('AUTO_CLAIM_QUIET_HOURS');
+  const dailyHour = optionalNumber('AUTO_CLAIM_DAILY_HOUR');
+  if (dailyHour !== undefined && (!Number.isInteger(dailyHour) || dailyHour < 0 || dailyHour > 23)) {
+    throw new Error(`Invalid AUTO_CLAIM_DAILY_HOUR: ${dailyHour}. Must be a UTC hour 0-23`);
+  }
+
+  const chainRpcUrls: Record<number, string[]> = {};
+  for (const chainId of chainIds ?? []) {
+    const urls = optionalList(`RPC_URLS_${chainId}`);
+    if (urls) chainRpcUrls[chainId] = urls;
+  }
+
+  return {
+    chainIds,
+    chainRpcUrls,
+    rpcUrls: optionalList('RPC_URLS'),
+    claimRpcUrls: optionalList('CLAIM_RPC_URLS'),
+    rpcQuorum: optionalNumber('RPC_QUORUM'),
+    channelCacheTtl: optionalNumber('CHANNEL_CACHE_TTL'),
+    channelConcurrency: optionalChoice('CHANNEL_CONCURRENCY', ['queue', 'reject'] as const),
+    channelLockTimeout: optionalNumber('CHANNEL_LOCK_TIMEOUT'),
+    channelExpiryWindow: optionalNumber('CHANNEL_EXPIRY_WINDOW'),
+    topUpTimeout: optionalNumber('VOUCHER_TOPUP_TIMEOUT'),
+    sessionKeys: optionalBoolean('SESSION_KEYS'),
+    watermarkPath: optionalEnv('WATERMARK_PATH'),
+    reconcileLookbackBlocks: optionalNumber('RECONCILE_LOOKBACK_BLOCKS'),
+    reconcileLogChunk: optionalNumber('RECONCILE_LOG_CHUNK'),
+    eventCursorPath: optionalEnv('EVENT_CURSOR_PATH'),
+    eventLookbackBlocks: optionalNumber('EVENT_LOOKBACK_BLOCKS'),
+    eventPollInterval: optionalNumber('EVENT_POLL_INTERVAL'),
+    claimGasFactor: optionalNumber('CLAIM_GAS_FACTOR'),
+    nativeTokenPrice: optionalNumber('NATIVE_TOKEN_PRICE'),
+    claimBatchSize: optionalNumber('CLAIM_BATCH_SIZE'),
+    claimMaxAttempts: optionalNumber('CLAIM_MAX_ATTEMPTS'),
+    treasuryAddress: optionalAddress('TREASURY_ADDRESS'),
+    sweepFloat: optionalBigInt('SWEEP_FLOAT'),
+    sweepMinAmount: optionalBigInt('SWEEP_MIN_AMOUNT'),
+    signer,
+    retiredSigners,
+    autoClaimInterval: optionalNumber('AUTO_CLAIM_INTERVAL'),
+    autoClaimExpiryBuffer: optionalNumber('AUTO_CLAIM_EXPIRY_BUFFER'),
+    autoClaimThreshold: optionalBoolean('AUTO_CLAIM_THRESHOLD'),
+    autoClaimMaxPerRun: optionalNumber('AUTO_CLAIM_MAX_PER_RUN'),
+    autoClaimQuietHours: quietHours !== undefined ? parseQuietHours(quietHours) : undefined,
+    autoClaimDailyHour: dailyHour,
+    autoClaimDailyMin: optionalBigInt('AUTO_CLAIM_DAILY_MIN'),
+  };
+}
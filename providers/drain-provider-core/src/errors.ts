@@ -0,0 +1,113 @@
+/**
+ * DRAIN Errors
+ *
+ * Error codes shared by every provider, with their HTTP status.
+ * Payment problems the consumer can fix are 402, RPC failures on
+ * our side are 503 with Retry-After.
+ *
+ * Response body:
+ *   { "error": { "message": string, "type": DrainErrorType, "code": DrainErrorCode, "details"?: { [key]: string } } }
+ * The code is repeated in the X-DRAIN-Error header.
+ */
+
+import type { Response } from 'express';
+
+/**
+ * Error category, the `error.type` field
+ */
+export type DrainErrorType =
+  | 'payment_required'
+  | 'invalid_request_error'
+  | 'conflict_error'
+  | 'service_unavailable'
+  | 'api_error';
+
+interface DrainErrorSpec {
+  status: number;
+  type: DrainErrorType;
+  message: string;
+  /** Seconds for the Retry-After header */
+  retryAfter?: number;
+}
+
+/**
+ * All DRAIN error codes
+ */
+export const DRAIN_ERRORS = {
+  // Voucher transport
+  voucher_required: { status: 402, type: 'payment_required', message: 'Voucher required: X-DRAIN-Voucher header, Authorization: DRAIN <token> or body.drain_voucher' },
+  invalid_voucher_format: { status: 402, type: 'payment_required', message: 'Invalid voucher: expected JSON or compact token with 32-byte channelId, hex signature and decimal amount/nonce' },
+
+  // Channel
+  unsupported_chain: { status: 402, type: 'payment_required', message: 'Channel chain is not accepted by this provider, see GET /v1/pricing' },
+  channel_not_found: { status: 402, type: 'payment_required', message: 'Channel does not exist' },
+  wrong_provider: { status: 402, type: 'payment_required', message: 'Channel is not opened to this provider' },
+  channel_expired: { status: 402, type: 'payment_required', message: 'Channel has expired' },
+  channel_closed: { status: 402, type: 'payment_required', message: 'Channel has been closed, open a new channel' },
+  channel_expiring: { status: 402, type: 'payment_required', message: 'Channel expires too soon, open a new channel' },
+
+  // Voucher
+  insufficient_funds: { status: 402, type: 'payment_required', message: 'Voucher amount does not cover the estimated cost' },
+  insufficient_funds_post: { status: 402, type: 'payment_required', message: 'Voucher insufficient for actual cost' },
+  exceeds_deposit: { status: 402, type: 'payment_required', message: 'Voucher amount exceeds channel deposit' },
+  invalid_nonce: { status: 402, type: 'payment_required', message: 'Voucher nonce must be higher than the last one' },
+  invalid_signature: { status: 402, type: 'payment_required', message: 'Voucher signature does not match the channel consumer' },
+
+  // Session keys
+  session_keys_disabled: { status: 404, type: 'invalid_request_error', message: 'This provider does not accept session keys' },
+  invalid_session_key: { status: 400, type: 'invalid_request_error', message: 'Invalid session key delegation: expected 32-byte channelId, sessionKey address, decimal maxAmount, unix expiry and hex signature' },
+  session_key_expired: { status: 402, type: 'payment_required', message: 'Session key delegation has expired, sign a new one with the channel key' },
+  session_key_limit: { status: 402, type: 'payment_required', message: 'Voucher amount exceeds the session key maxAmount' },
+  session_key_unsupported: { status: 402, type: 'payment_required', message: 'Session keys need a contract-wallet consumer whose EIP-1271 check accepts them' },
+
+  // Stream top-up
+  stream_id_required: { status: 400, type: 'invalid_request_error', message: 'streamId required (body or X-DRAIN-Stream-Id header)' },
+  stream_not_found: { status: 404, type: 'invalid_request_error', message: 'Stream is not active' },
+  channel_mismatch: { status: 402, type: 'payment_required', message: 'Top-up voucher is for a different channel' },
+  topup_not_higher: { status: 402, type: 'payment_required', message: 'Top-up voucher must raise the amount' },
+
+  // Request
+  model_not_supported: { status: 400, type: 'invalid_request_error', message: 'Model not supported. Use GET /v1/models to see available models.' },
+  channel_busy: { status: 409, type: 'conflict_error', message: 'Another request on this channel is in progress', retryAfter: 1 },
+
+  // Infrastructure
+  rpc_unavailable: { status: 503, type: 'service_unavailable', message: 'Blockchain RPC unavailable, retry shortly', retryAfter: 5 },
+  channel_reconciling: { status: 503, type: 'service_unavailable', message: 'Channel state is being reconciled with the chain, retry shortly', retryAfter: 5 },
+  validation_error: { status: 500, type: 'api_error', message: 'Voucher could not be validated' },
+} as const satisfies Record<string, DrainErrorSpec>;
+
+export type DrainErrorCode = keyof typeof DRAIN_ERRORS;
+
+/**
+ * Machine-readable error details (amounts in USDC wei)
+ */
+export type DrainErrorDetails = Record<string, string>;
+
+/**
+ * Whether the error is on our side rather than the consumer's payment
+ */
+export function isInfrastructureError(code: DrainErrorCode): boolean {
+  return DRAIN_ERRORS[code].status >= 500;
+}
+
+/**
+ * Send a DRAIN error response
+ */
+export function sendDrainError(
+  res: Response,
+  code: DrainErrorCode,
+  options: { message?: string; details?: DrainErrorDetails; headers?: Record<string, string> } = {}
+): void {
+  const spec: DrainErrorSpec = DRAIN_ERRORS[code];
+  const headers: Record<string, string> = { 'X-DRAIN-Error': code, ...options.headers };
+  if (spec.retryAfter !== undefined) headers['Retry-After'] = spec.retryAfter.toString();
+
+  res.status(spec.status).set(headers).json({
+    error: {
+      message: options.message ?? spec.message,
+      type: spec.type,
+      code,
+      ...(options.details && { details: options.details }),
+    },
+  });
+}
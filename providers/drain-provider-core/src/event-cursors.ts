@@ -0,0 +1,78 @@
+/**
+ * Event Cursors
+ *
+ * Last block whose channel events were processed, per chain, kept in
+ * their own file next to the voucher log. After a restart the event
+ * watcher resumes from the cursor instead of missing the events emitted
+ * while it was down.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { siblingPath, writeJsonFile } from './json-file.js';
+
+/**
+ * Event cursor file path for a voucher storage path (vouchers.json → vouchers.events.json)
+ */
+export function eventCursorPathFor(storagePath: string): string {
+  return siblingPath(storagePath, 'events');
+}
+
+/**
+ * File-backed block cursor per chain, only ever advanced
+ */
+export class EventCursors {
+  private filePath: string;
+  private cursors: Map<number, bigint>;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.cursors = this.load();
+  }
+
+  /**
+   * Load cursors. An unreadable file only costs a rescan, so it starts fresh.
+   */
+  private load(): Map<number, bigint> {
+    const cursors = new Map<number, bigint>();
+    if (!existsSync(this.filePath)) return cursors;
+
+    try {
+      const parsed = JSON.parse(readFileSync(this.filePath, 'utf-8')) as Record<string, string>;
+      for (const [chainId, block] of Object.entries(parsed)) {
+        cursors.set(Number(chainId), BigInt(block));
+      }
+    } catch (error) {
+      console.error(`[channel-events] Event cursor file ${this.filePath} is unreadable, rescanning:`, error);
+    }
+    return cursors;
+  }
+
+  /**
+   * Write all cursors atomically
+   */
+  private save(): void {
+    const serializable = Object.fromEntries(
+      Array.from(this.cursors.entries(), ([chainId, block]) => [chainId, block.toString()])
+    );
+
+    writeJsonFile(this.filePath, serializable);
+  }
+
+  /**
+   * Last processed block on a chain, null before the first scan
+   */
+  get(chainId: number): bigint | null {
+    return this.cursors.get(chainId) ?? null;
+  }
+
+  /**
+   * Advance a chain's cursor. Lower blocks are ignored.
+   */
+  advance(chainId: number, block: bigint): void {
+    const cursor = this.cursors.get(chainId);
+    if (cursor !== undefined && cursor >= block) return;
+
+    this.cursors.set(chainId, block);
+    this.save();
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * @handshake58/drain-provider-core
+ *
+ * Shared DRAIN voucher validation, claiming and storage for HS58 provider templates.
+ */
+
+export { DrainService } from './drain.js';
+export { VoucherStorage } from './storage.js';
+export { ChannelCache, type OnChainChannel } from './channel-cache.js';
+export { ChannelLock, type ReleaseChannel } from './channel-lock.js';
+export { ChannelHolds, type ChannelHold } from './channel-holds.js';
+export { StreamTopUps, type ActiveStream } from './stream-topups.js';
+export { RpcPool, RpcQuorumError, createRpcTransport, type RpcEndpointHealth, type RpcTransportFactory } from './rpc.js';
+export {
+  DRAIN_DEPLOYMENTS,
+  registerDeployment,
+  getDeployment,
+  toTokenUnits,
+  toTokenPricing,
+  gasCostToTokenUnits,
+  type DrainDeployment,
+  type PaymentToken,
+} from './chains.js';
+export {
+  DRAIN_AUTH_SCHEME,
+  normalizeVoucher,
+  decodeVoucher,
+  encodeCompactVoucher,
+  decodeCompactVoucher,
+  readVoucher,
+} from './voucher-encoding.js';
+export { normalizeSessionKeyDelegation } from './session-keys.js';
+export { NonceWatermarks, watermarkPathFor, type NonceWatermark } from './watermarks.js';
+export { EventCursors, eventCursorPathFor } from './event-cursors.js';
+export { ClaimQueue, type ClaimRequest, type ClaimSource, type ClaimQueueStats } from './claim-queue.js';
+export { createSigner, decryptKeystore, verifySigner } from './signer.js';
+export { parseQuietHours, isQuietHour, formatQuietHours } from './claim-policy.js';
+export { loadDrainEnv } from './env.js';
+export {
+  DRAIN_ERRORS,
+  sendDrainError,
+  isInfrastructureError,
+  type DrainErrorCode,
+  type DrainErrorType,
+  type DrainErrorDetails,
+} from './errors.js';
+export {
+  ModelCatalog,
+  calculateCost,
+  convertPricing,
+  NAMESPACE_SEPARATOR,
+  type CatalogEntry,
+} from './catalog.js';
+export { createDrainRouter, type DrainRouterOptions } from './router.js';
+export { OpenAICompatibleAdapter } from './adapters/openai-compatible.js';
+export { OpenAIAdapter, type OpenAIAdapterOptions } from './adapters/openai.js';
+export { AnthropicAdapter, type AnthropicAdapterOptions } from './adapters/anthropic.js';
+export { XAIAdapter, type XAIAdapterOptions } from './adapters/xai.js';
+export { OpenRouterAdapter, type OpenRouterAdapterOptions, type OpenRouterModel } from './adapters/openrouter.js';
+export { ChutesAdapter, type ChutesAdapterOptions, type ChutesModel } from './adapters/chutes.js';
+export { fetchMarketplacePricing } from './adapters/marketplace.js';
+export {
+  DRAIN_ADDRESSES,
+  USDC_DECIMALS,
+  EIP712_DOMAIN,
+  EIP712_VOUCHER_TYPES,
+  EIP712_SESSION_KEY_TYPES,
+  DRAIN_CHANNEL_ABI,
+  DRAIN_CHANNEL_EVENTS_ABI,
+  DRAIN_MULTICALL_ABI,
+} from './constants.js';
+export type {
+  ModelPricing,
+  DrainConfig,
+  DrainOptions,
+  VoucherHeader,
+  StoredVoucher,
+  ChannelState,
+  SessionKeyDelegation,
+  SessionKeyGrant,
+  ReconcileReport,
+  ClaimStatus,
+  ClaimSkipReason,
+  PlannedClaim,
+  ExecutedClaim,
+  ClaimReport,
+  SweepStatus,
+  SweepRecord,
+  SignerOptions,
+  QuietHours,
+  AutoClaimPolicy,
+  AutoClaimRun,
+  CostResult,
+  DrainResponseHeaders,
+  DrainErrorHeaders,
+  UpstreamAdapter,
+  UpstreamModel,
+  UpstreamPrice,
+  UpstreamUsage,
+  ChatRequest,
+  CompletionResult,
+  StreamChunk,
+} from './types.js';
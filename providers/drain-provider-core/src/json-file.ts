@@ -0,0 +1,32 @@
+/**
+ * JSON Files
+ *
+ * Shared writer for the provider's state files (voucher log, nonce
+ * watermarks, event cursors). Writes go to a temp file that is renamed
+ * into place, so a crash never leaves a half-written file behind.
+ */
+
+import { existsSync, mkdirSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+
+/**
+ * Write `data` as JSON to `filePath` atomically, creating the directory if needed
+ */
+export function writeJsonFile(filePath: string, data: unknown): void {
+  const dir = dirname(filePath);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+
+  const tmpPath = `${filePath}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify(data, null, 2));
+  renameSync(tmpPath, filePath);
+}
+
+/**
+ * Path of a file kept next to the voucher log (vouchers.json + 'events' → vouchers.events.json)
+ */
+export function siblingPath(storagePath: string, suffix: string): string {
+  const base = storagePath.endsWith('.json') ? storagePath.slice(0, -'.json'.length) : storagePath;
+  return `${base}.${suffix}.json`;
+}
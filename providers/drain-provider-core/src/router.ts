@@ -0,0 +1,826 @@
+/**
+ * DRAIN-Paid Router
+ *
+ * OpenAI-compatible endpoints with DRAIN payments, written once for
+ * every upstream adapter.
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { formatUnits } from 'viem';
+import { calculateCost, type CatalogEntry, type ModelCatalog } from './catalog.js';
+import type { DrainService } from './drain.js';
+import { sendDrainError } from './errors.js';
+import { toTokenPricing, toTokenUnits, type DrainDeployment } from './chains.js';
+import { readVoucher } from './voucher-encoding.js';
+import { normalizeSessionKeyDelegation } from './session-keys.js';
+import { formatQuietHours } from './claim-policy.js';
+import type { VoucherStorage } from './storage.js';
+import type { DrainConfig, VoucherHeader, StoredVoucher } from './types.js';
+
+/** Output tokens reserved when the request sets no max_tokens */
+const DEFAULT_RESERVED_OUTPUT_TOKENS = 4096;
+
+export interface DrainRouterOptions {
+  /** Display name, e.g. 'HS58-OpenAI' */
+  providerName: string;
+  config: DrainConfig;
+  catalog: ModelCatalog;
+  drainService: DrainService;
+  storage: VoucherStorage;
+}
+
+/**
+ * Public description of an accepted deployment
+ */
+function describeDeployment(deployment: DrainDeployment) {
+  return {
+    chainId: deployment.chainId,
+    name: deployment.name,
+    drainAddress: deployment.drainAddress,
+    currency: deployment.token.symbol,
+    tokenAddress: deployment.token.address,
+    decimals: deployment.token.decimals,
+    explorerUrl: deployment.explorerUrl,
+  };
+}
+
+/**
+ * Create the DRAIN-paid router
+ */
+export function createDrainRouter(options: DrainRouterOptions): Router {
+  const { providerName, config, catalog, drainService, storage } = options;
+  const router = Router();
+
+  /**
+   * Format a token amount with the decimals and symbol of its chain
+   */
+  const formatAmount = (amount: bigint, chainId?: number): string => {
+    const { token } = drainService.getDeployment(chainId);
+    return `${formatUnits(amount, token.decimals)} ${token.symbol}`;
+  };
+
+  /**
+   * Format a USDC-denominated setting (threshold, float) in the token of a chain
+   */
+  const formatSetting = (amount: bigint, chainId?: number): string =>
+    formatAmount(toTokenUnits(amount, drainService.getDeployment(chainId).token.decimals), chainId);
+
+  /**
+   * GET /v1/pricing
+   * Returns pricing information for all models (?chainId= selects the chain)
+   */
+  router.get('/v1/pricing', (req, res) => {
+    const pricing: Record<string, { inputPer1kTokens: string; outputPer1kTokens: string; name?: string; backend: string }> = {};
+    const models = catalog.getModelList();
+
+    // Chain the prices are quoted for
+    const accepted = drainService.getAcceptedDeployments();
+    const deployment = req.query.chainId
+      ? accepted.find(d => d.chainId === Number(req.query.chainId))
+      : accepted[0];
+    if (!deployment) {
+      sendDrainError(res, 'unsupported_chain', {
+        details: { chainId: String(req.query.chainId) },
+      });
+      return;
+    }
+    const { decimals } = deployment.token;
+
+    // Get query filter
+    const filter = req.query.filter as string | undefined;
+
+    for (const model of models) {
+      // Apply filter if provided
+      if (filter && !model.id.toLowerCase().includes(filter.toLowerCase())) {
+        continue;
+      }
+
+      const chainPricing = toTokenPricing(model.pricing, decimals);
+      pricing[model.id] = {
+        inputPer1kTokens: formatUnits(chainPricing.inputPer1k, decimals),
+        outputPer1kTokens: formatUnits(chainPricing.outputPer1k, decimals),
+        name: model.name,
+        backend: model.adapter.id,
+      };
+    }
+
+    res.json({
+      provider: drainService.getProviderAddress(),
+      providerName,
+      chainId: deployment.chainId,
+      currency: deployment.token.symbol,
+      decimals,
+      chains: accepted.map(describeDeployment),
+      sessionKeys: drainService.acceptsSessionKeys(),
+      markup: `${(catalog.markup - 1) * 100}%`,
+      backends: catalog.getAdapters().map(a => a.id),
+      totalModels: models.length,
+      pricingAge: `${catalog.getPricingAge()}s ago`,
+      models: pricing,
+    });
+  });
+
+  /**
+   * GET /v1/models
+   * OpenAI-compatible models endpoint
+   */
+  router.get('/v1/models', (req, res) => {
+    const models = catalog.getModelList().map(m => ({
+      id: m.id,
+      object: 'model',
+      created: Date.now(),
+      owned_by: m.adapter.id,
+      name: m.name,
+      context_length: m.contextLength,
+    }));
+
+    res.json({
+      object: 'list',
+      data: models,
+      total: models.length,
+    });
+  });
+
+  /**
+   * POST /v1/chat/completions
+   * OpenAI-compatible chat endpoint with DRAIN payments
+   */
+  router.post('/v1/chat/completions', async (req, res) => {
+    const { present, voucher } = readVoucher(req, 'drain_voucher');
+
+    // 1. Check voucher present (header, Authorization or body.drain_voucher)
+    if (!present) {
+      sendDrainError(res, 'voucher_required');
+      return;
+    }
+
+    // 2. Parse voucher
+    if (!voucher) {
+      sendDrainError(res, 'invalid_voucher_format');
+      return;
+    }
+
+    // 3. Check model supported
+    const model = req.body.model as string;
+    const entry = catalog.resolve(model);
+    if (!entry) {
+      sendDrainError(res, 'model_not_supported', {
+        message: `Model '${model}' not supported. Use GET /v1/models to see available models.`,
+      });
+      return;
+    }
+
+    // 4. Check the channel's chain is accepted
+    const deployment = drainService.resolveDeployment(voucher);
+    if (!deployment) {
+      sendDrainError(res, 'unsupported_chain', {
+        details: { channelId: voucher.channelId, chainId: String(voucher.chainId) },
+      });
+      return;
+    }
+
+    // 5. Serialize requests on this channel until the voucher is stored
+    const release = await drainService.acquireChannel(voucher.channelId);
+    if (!release) {
+      sendDrainError(res, 'channel_busy');
+      return;
+    }
+
+    try {
+      await servePaidCompletion(req, res, voucher, entry, deployment);
+    } finally {
+      release();
+    }
+  });
+
+  /**
+   * Validate, reserve, call the upstream and settle the actual cost.
+   * Caller holds the channel lock.
+   */
+  async function servePaidCompletion(
+    req: Request,
+    res: Response,
+    voucher: VoucherHeader,
+    entry: CatalogEntry,
+    deployment: DrainDeployment
+  ): Promise<void> {
+    const { adapter } = entry;
+    const pricing = toTokenPricing(entry.pricing, deployment.token.decimals);
+    const isStreaming = req.body.stream === true;
+    const upstreamRequest = {
+      model: entry.upstreamId,
+      messages: req.body.messages,
+      max_tokens: req.body.max_tokens,
+    };
+
+    // 6. Pre-auth check: estimate minimum cost
+    const estimatedInputTokens = JSON.stringify(req.body.messages).length / 4;
+    const minOutputTokens = 50;
+    const estimatedMinCost = calculateCost(pricing, Math.ceil(estimatedInputTokens), minOutputTokens);
+
+    // 7. Validate voucher with estimated cost
+    const validation = await drainService.validateVoucher(voucher, estimatedMinCost);
+
+    if (!validation.valid) {
+      const code = validation.error ?? 'validation_error';
+      const details: Record<string, string> = { channelId: voucher.channelId };
+      const headers: Record<string, string> = {};
+
+      if (code === 'insufficient_funds' && validation.channel) {
+        details.required = estimatedMinCost.toString();
+        details.provided = (BigInt(voucher.amount) - validation.channel.totalCharged).toString();
+        headers['X-DRAIN-Required'] = details.required;
+        headers['X-DRAIN-Provided'] = details.provided;
+      } else if (code === 'exceeds_deposit' && validation.channel) {
+        details.deposit = validation.channel.deposit.toString();
+      } else if (code === 'invalid_nonce' && validation.channel?.lastVoucher) {
+        details.lastNonce = validation.channel.lastVoucher.nonce.toString();
+      }
+
+      sendDrainError(res, code, { details, headers });
+      return;
+    }
+
+    const channelState = validation.channel!;
+
+    // 8. Hold the estimated maximum until the actual cost is known
+    const maxOutputTokens = req.body.max_tokens ?? DEFAULT_RESERVED_OUTPUT_TOKENS;
+    const estimatedMaxCost = calculateCost(pricing, Math.ceil(estimatedInputTokens), maxOutputTokens);
+    let hold = drainService.reserve(voucher, channelState, estimatedMaxCost);
+    let streamId: string | null = null;
+
+    try {
+      if (isStreaming) {
+        // === STREAMING RESPONSE ===
+        streamId = drainService.openStream(voucher);
+
+        res.setHeader('Content-Type', 'text/event-stream');
+        res.setHeader('Cache-Control', 'no-cache');
+        res.setHeader('Connection', 'keep-alive');
+        res.setHeader('X-DRAIN-Channel', voucher.channelId);
+        res.setHeader('X-DRAIN-Stream-Id', streamId);
+
+        let inputTokens = 0;
+        let outputTokens = 0;
+        let fullContent = '';
+
+        // Never charge beyond what the current voucher authorizes
+        let currentVoucher = voucher;
+        let spendLimit = BigInt(currentVoucher.amount) - channelState.totalCharged;
+        let limitReached = false;
+        let upstreamError: unknown = null;
+
+        try {
+          for await (const part of adapter.stream(upstreamRequest)) {
+            // Price the chunk before serving it
+            const content = fullContent + part.text;
+            const usage = part.usage ?? { inputTokens, outputTokens };
+            const runningCost = calculateCost(
+              pricing,
+              usage.inputTokens || Math.ceil(estimatedInputTokens),
+              Math.max(usage.outputTokens, Math.ceil(content.length / 4))
+            );
+
+            // Hold the chunk for a top-up voucher (POST /v1/drain/vouchers) when it
+            // costs more than the voucher authorizes; stop without it otherwise.
+            // Chunks without content (e.g. a final usage report) are never held.
+            while (part.text !== '' && runningCost > spendLimit) {
+              if (drainService.getTopUpTimeout() > 0) {
+                res.write(`event: drain\n`);
+                res.write(`data: ${JSON.stringify({
+                  code: 'topup_required',
+                  message: 'Voucher amount exhausted, stream paused. POST a higher voucher to /v1/drain/vouchers to continue.',
+                  streamId,
+                  channelId: voucher.channelId,
+                  authorized: currentVoucher.amount,
+                  cost: runningCost.toString(),
+                  timeout: drainService.getTopUpTimeout(),
+                })}\n\n`);
+              }
+
+              const topUp = await drainService.awaitTopUp(streamId, currentVoucher);
+              if (!topUp) {
+                limitReached = true;
+                break;
+              }
+
+              currentVoucher = topUp;
+              spendLimit = BigInt(currentVoucher.amount) - channelState.totalCharged;
+              drainService.releaseHold(hold);
+              hold = drainService.reserve(currentVoucher, channelState, spendLimit);
+            }
+            if (limitReached) break;
+
+            fullContent = content;
+            inputTokens = usage.inputTokens;
+            outputTokens = usage.outputTokens;
+            res.write(`data: ${JSON.stringify(part.chunk)}\n\n`);
+          }
+        } catch (error) {
+          // Nothing served yet: fail without charging
+          if (!fullContent) throw error;
+          // Failed mid-stream: the chunks already served are settled below
+          upstreamError = error;
+        }
+
+        // Estimate tokens if not provided
+        if (inputTokens === 0) {
+          inputTokens = Math.ceil(JSON.stringify(req.body.messages).length / 4);
+        }
+        if (outputTokens === 0) {
+          outputTokens = Math.ceil(fullContent.length / 4);
+        }
+
+        // Calculate final cost, capped at the authorized amount
+        let actualCost = calculateCost(pricing, inputTokens, outputTokens);
+        if (actualCost > spendLimit) {
+          actualCost = spendLimit;
+          limitReached = true;
+        }
+
+        // Settle the hold at actual cost
+        const settlement = drainService.settle(hold, currentVoucher, channelState, actualCost);
+
+        // Tell the client why the stream ended early
+        if (limitReached) {
+          res.write(`event: drain\n`);
+          res.write(`data: ${JSON.stringify({
+            code: 'spend_limit_reached',
+            message: 'Voucher amount exhausted, stream stopped. Send a higher voucher to continue.',
+            channelId: voucher.channelId,
+            authorized: currentVoucher.amount,
+            cost: settlement.cost.toString(),
+          })}\n\n`);
+        }
+
+        // Report a mid-stream upstream error in-band, else end normally
+        if (upstreamError) {
+          console.error(`${adapter.name} API error mid-stream:`, upstreamError);
+          const message = upstreamError instanceof Error ? upstreamError.message : `${adapter.name} API error`;
+          res.write(`data: ${JSON.stringify({ error: message })}\n\n`);
+        } else {
+          res.write(`data: [DONE]\n\n`);
+        }
+
+        // Send cost info
+        res.write(`: X-DRAIN-Cost: ${settlement.cost.toString()}\n`);
+        res.write(`: X-DRAIN-Total: ${settlement.total.toString()}\n`);
+        res.write(`: X-DRAIN-Remaining: ${settlement.remaining.toString()}\n`);
+
+        res.end();
+
+      } else {
+        // === NON-STREAMING RESPONSE ===
+        const { response, usage } = await adapter.complete(upstreamRequest);
+
+        // Get actual token counts
+        const inputTokens = usage?.inputTokens ?? 0;
+        const outputTokens = usage?.outputTokens ?? 0;
+
+        // Calculate actual cost
+        const actualCost = calculateCost(pricing, inputTokens, outputTokens);
+
+        // Verify voucher covers actual cost
+        if (BigInt(voucher.amount) < channelState.totalCharged + actualCost) {
+          sendDrainError(res, 'insufficient_funds_post', {
+            details: {
+              channelId: voucher.channelId,
+              required: actualCost.toString(),
+              provided: (BigInt(voucher.amount) - channelState.totalCharged).toString(),
+            },
+            headers: { 'X-DRAIN-Required': actualCost.toString() },
+          });
+          return;
+        }
+
+        // Settle the hold at actual cost
+        const settlement = drainService.settle(hold, voucher, channelState, actualCost);
+
+        res.set({
+          'X-DRAIN-Cost': settlement.cost.toString(),
+          'X-DRAIN-Total': settlement.total.toString(),
+          'X-DRAIN-Remaining': settlement.remaining.toString(),
+          'X-DRAIN-Channel': voucher.channelId,
+        }).json(response);
+      }
+    } catch (error) {
+      console.error(`${adapter.name} API error:`, error);
+
+      const message = error instanceof Error ? error.message : `${adapter.name} API error`;
+
+      // Stream already started: report the error in-band
+      if (res.headersSent) {
+        res.write(`data: ${JSON.stringify({ error: message })}\n\n`);
+        res.end();
+        return;
+      }
+
+      res.status(500).json({
+        error: {
+          message,
+          type: 'api_error',
+          code: `${adapter.id}_error`,
+        },
+      });
+    } finally {
+      // Unsettled (upstream error, cost not covered): release without charging
+      drainService.releaseHold(hold);
+      if (streamId) drainService.closeStream(streamId);
+    }
+  }
+
+  /**
+   * POST /v1/drain/vouchers
+   * Top up an active stream with a higher-amount, higher-nonce voucher
+   */
+  router.post('/v1/drain/vouchers', async (req, res) => {
+    const streamId = (req.body?.streamId ?? req.headers['x-drain-stream-id']) as string | undefined;
+    const { voucher } = readVoucher(req, 'voucher');
+
+    // 1. Check stream id present
+    if (!streamId) {
+      sendDrainError(res, 'stream_id_required');
+      return;
+    }
+
+    // 2. Parse voucher
+    if (!voucher) {
+      sendDrainError(res, 'invalid_voucher_format', {
+        message: 'Valid voucher required in X-DRAIN-Voucher, Authorization: DRAIN <token> or body.voucher',
+      });
+      return;
+    }
+
+    // 3. Validate and hand to the paused stream
+    const result = await drainService.submitTopUp(streamId, voucher);
+    if (!result.accepted) {
+      sendDrainError(res, result.error ?? 'validation_error', {
+        details: { streamId, channelId: voucher.channelId },
+      });
+      return;
+    }
+
+    res.json({
+      accepted: true,
+      streamId,
+      channelId: voucher.channelId,
+      authorized: voucher.amount,
+    });
+  });
+
+  /**
+   * POST /v1/drain/session-keys
+   * Register a consumer-signed session key delegation for a channel
+   */
+  router.post('/v1/drain/session-keys', async (req, res) => {
+    // 1. Parse delegation (top-level body or body.delegation)
+    const delegation = normalizeSessionKeyDelegation(req.body?.delegation ?? req.body);
+    if (!delegation) {
+      sendDrainError(res, 'invalid_session_key');
+      return;
+    }
+
+    // 2. Verify against the channel and store
+    const result = await drainService.registerSessionKey(delegation);
+    if (!result.registered || !result.grant) {
+      sendDrainError(res, result.error ?? 'validation_error', {
+        details: { channelId: delegation.channelId, sessionKey: delegation.sessionKey },
+      });
+      return;
+    }
+
+    res.status(201).json({
+      registered: true,
+      channelId: result.grant.channelId,
+      chainId: result.grant.chainId,
+      sessionKey: result.grant.sessionKey,
+      maxAmount: result.grant.maxAmount.toString(),
+      expiry: result.grant.expiry,
+    });
+  });
+
+  /**
+   * POST /v1/admin/claim
+   * Trigger payment claims, reporting planned vs executed claims.
+   * ?dryRun=true only plans and simulates, nothing is sent.
+   */
+  router.post('/v1/admin/claim', async (req, res) => {
+    try {
+      const forceAll = req.query.force === 'true';
+      const dryRun = req.query.dryRun === 'true';
+      const report = dryRun
+        ? await drainService.simulateClaims(forceAll)
+        : await drainService.claimPayments(forceAll);
+      res.json({
+        success: true,
+        dryRun,
+        claimed: report.executed.filter(e => e.txHash).reduce((n, e) => n + e.channelIds.length, 0),
+        transactions: report.transactions,
+        forced: forceAll,
+        planned: report.planned.map(p => ({
+          channelId: p.channelId,
+          chainId: p.chainId,
+          provider: p.provider,
+          action: p.action,
+          reason: p.reason,
+          revertReason: p.revertReason,
+          error: p.error,
+          expiring: p.expiring,
+          value: formatAmount(p.value, p.chainId),
+          valueRaw: p.value.toString(),
+          gas: p.gas?.toString(),
+          gasCost: p.gasCost !== undefined ? formatAmount(p.gasCost, p.chainId) : undefined,
+        })),
+        executed: report.executed,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Claim failed',
+      });
+    }
+  });
+
+  /**
+   * GET /v1/admin/stats
+   * Get provider statistics
+   */
+  router.get('/v1/admin/stats', (req, res) => {
+    const stats = storage.getStats();
+    const claimQueue = drainService.getClaimQueueStats();
+    res.json({
+      provider: drainService.getProviderAddress(),
+      providerName,
+      retiredProviders: drainService.getRetiredProviderAddresses(),
+      signer: drainService.getSignerType(),
+      chainId: config.chainId,
+      ...stats,
+      // Amounts per chain: tokens and decimals differ, so there is no cross-chain total
+      chains: drainService.getChainStats().map(c => ({
+        ...describeDeployment(c.deployment),
+        activeChannels: c.activeChannels,
+        settled: formatAmount(c.settled, c.deployment.chainId),
+        unclaimed: formatAmount(c.unclaimed, c.deployment.chainId),
+        claimThreshold: formatSetting(config.claimThreshold, c.deployment.chainId),
+      })),
+      totalModels: catalog.getSupportedModels().length,
+      pricingAge: `${catalog.getPricingAge()}s ago`,
+      rpc: drainService.getRpcHealth(),
+      reconcile: drainService.getReconcileStatus(),
+      channelEvents: drainService.getChannelEventStatus().map(e => ({
+        ...e,
+        cursor: e.cursor?.toString() ?? null,
+        lastEventAt: e.lastEventAt ? new Date(e.lastEventAt).toISOString() : null,
+      })),
+      channelCache: drainService.getChannelCacheStats(),
+      channelLocks: drainService.getChannelLockStats(),
+      holds: drainService.getHoldStats(),
+      streams: drainService.getStreamStats(),
+      claimQueue: { queued: claimQueue.queued.length, running: claimQueue.running !== null },
+    });
+  });
+
+  /**
+   * GET /v1/admin/sweeps
+   * Treasury settings and sweep history, newest first
+   */
+  router.get('/v1/admin/sweeps', (req, res) => {
+    const treasury = drainService.getTreasury();
+
+    res.json({
+      provider: drainService.getProviderAddress(),
+      providerName,
+      treasury: treasury && {
+        address: treasury.address,
+        float: formatSetting(treasury.float, config.chainId),
+        minAmount: formatSetting(treasury.minAmount, config.chainId),
+      },
+      sweeps: storage.getSweeps().slice().reverse().map(s => ({
+        chainId: s.chainId,
+        from: s.from,
+        to: s.to,
+        amount: formatAmount(s.amount, s.chainId),
+        amountRaw: s.amount.toString(),
+        balance: formatAmount(s.balance, s.chainId),
+        txHash: s.txHash ?? null,
+        status: s.status,
+        error: s.error ?? null,
+        createdAt: new Date(s.createdAt).toISOString(),
+        settledAt: s.settledAt ? new Date(s.settledAt).toISOString() : null,
+      })),
+    });
+  });
+
+  /**
+   * POST /v1/admin/sweep
+   * Sweep the balance above the float to the treasury now (?chainId=, default CHAIN_ID)
+   */
+  router.post('/v1/admin/sweep', async (req, res) => {
+    if (!drainService.getTreasury()) {
+      res.status(400).json({ success: false, error: 'TREASURY_ADDRESS is not configured' });
+      return;
+    }
+
+    try {
+      const chainId = req.query.chainId !== undefined ? Number(req.query.chainId) : undefined;
+      const sweeps = await drainService.sweep(chainId);
+      res.json({
+        success: sweeps.every(s => s.status !== 'failed'),
+        swept: sweeps.filter(s => s.txHash).length,
+        sweeps: sweeps.map(s => ({
+          from: s.from,
+          amount: formatAmount(s.amount, s.chainId),
+          txHash: s.txHash ?? null,
+          error: s.error ?? null,
+        })),
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Sweep failed',
+      });
+    }
+  });
+
+  /**
+   * GET /v1/admin/claims
+   * Claim queue: queued and running claims, last run and claim nonces
+   */
+  router.get('/v1/admin/claims', (req, res) => {
+    const queue = drainService.getClaimQueueStats();
+
+    res.json({
+      provider: drainService.getProviderAddress(),
+      providerName,
+      queued: queue.queued.map(r => ({
+        channelId: r.channelId,
+        expiring: r.expiring,
+        force: r.force,
+        sources: r.sources,
+        queuedAt: new Date(r.queuedAt).toISOString(),
+      })),
+      running: queue.running && {
+        channelIds: queue.running.channelIds,
+        sources: queue.running.sources,
+        startedAt: new Date(queue.running.startedAt).toISOString(),
+      },
+      lastRun: queue.lastRun && {
+        ...queue.lastRun,
+        startedAt: new Date(queue.lastRun.startedAt).toISOString(),
+        finishedAt: new Date(queue.lastRun.finishedAt).toISOString(),
+      },
+      runs: queue.runs,
+      pendingClaims: storage.getPendingClaims().map(voucher => ({
+        channelId: voucher.channelId,
+        chainId: voucher.chainId ?? config.chainId,
+        nonce: voucher.nonce.toString(),
+        claimTxHash: voucher.claimTxHash ?? null,
+        claimAttempts: voucher.claimAttempts ?? 0,
+      })),
+      nonces: queue.nonces,
+    });
+  });
+
+  /**
+   * GET /v1/admin/auto-claim
+   * Auto-claim policy, next run and the last run's outcome
+   */
+  router.get('/v1/admin/auto-claim', (req, res) => {
+    const status = drainService.getAutoClaimStatus();
+    const { policy, lastRun } = status;
+
+    res.json({
+      provider: drainService.getProviderAddress(),
+      providerName,
+      enabled: status.enabled,
+      policy: policy && {
+        intervalMinutes: policy.intervalMinutes,
+        expiryBufferSeconds: policy.expiryBufferSeconds,
+        thresholdClaims: policy.thresholdClaims,
+        claimThreshold: formatSetting(config.claimThreshold, config.chainId),
+        maxClaimsPerRun: policy.maxClaimsPerRun ?? null,
+        quietHours: policy.quietHours ? formatQuietHours(policy.quietHours) : null,
+        dailyClaim: policy.dailyClaimHour !== undefined
+          ? {
+              hour: policy.dailyClaimHour,
+              minAmount: formatSetting(policy.dailyClaimMin ?? 0n, config.chainId),
+            }
+          : null,
+      },
+      quietNow: status.quietNow,
+      nextRunAt: status.nextRunAt !== null ? new Date(status.nextRunAt).toISOString() : null,
+      lastRun: lastRun && {
+        ...lastRun,
+        startedAt: new Date(lastRun.startedAt).toISOString(),
+        finishedAt: new Date(lastRun.finishedAt).toISOString(),
+      },
+      lastDailyClaim: status.lastDailyClaim,
+    });
+  });
+
+  /**
+   * GET /v1/admin/vouchers
+   * Get pending vouchers, their claim status and dead-lettered claims
+   */
+  router.get('/v1/admin/vouchers', (req, res) => {
+    const unclaimed = storage.getUnclaimedVouchers();
+    const highest = storage.getHighestVoucherPerChannel();
+
+    const describeClaim = (voucher: StoredVoucher) => ({
+      claimStatus: voucher.claimStatus ?? null,
+      claimTxHash: voucher.claimTxHash ?? null,
+      claimAttempts: voucher.claimAttempts ?? 0,
+      lastClaimAt: voucher.lastClaimAt ? new Date(voucher.lastClaimAt).toISOString() : null,
+      claimError: voucher.claimError ?? null,
+    });
+
+    res.json({
+      provider: drainService.getProviderAddress(),
+      providerName,
+      unclaimedCount: unclaimed.length,
+      pendingClaims: storage.getPendingClaims().length,
+      channels: Array.from(highest.entries()).map(([channelId, voucher]) => ({
+        channelId,
+        chainId: voucher.chainId ?? config.chainId,
+        amount: formatAmount(voucher.amount, voucher.chainId),
+        amountRaw: voucher.amount.toString(),
+        nonce: voucher.nonce.toString(),
+        consumer: voucher.consumer,
+        claimed: voucher.claimed,
+        receivedAt: new Date(voucher.receivedAt).toISOString(),
+        ...describeClaim(voucher),
+      })),
+      deadLetters: storage.getDeadLetters().map(voucher => ({
+        channelId: voucher.channelId,
+        chainId: voucher.chainId ?? config.chainId,
+        amount: formatAmount(voucher.amount, voucher.chainId),
+        amountRaw: voucher.amount.toString(),
+        nonce: voucher.nonce.toString(),
+        ...describeClaim(voucher),
+      })),
+    });
+  });
+
+  /**
+   * GET /v1/admin/channels
+   * Settled vs reserved balances per channel
+   */
+  router.get('/v1/admin/channels', (req, res) => {
+    const balances = drainService.getChannelBalances();
+
+    res.json({
+      provider: drainService.getProviderAddress(),
+      providerName,
+      channels: balances.map(b => ({
+        channelId: b.channelId,
+        chainId: b.chainId,
+        consumer: b.consumer,
+        deposit: formatAmount(b.deposit, b.chainId),
+        authorized: formatAmount(b.authorized, b.chainId),
+        settled: formatAmount(b.settled, b.chainId),
+        settledRaw: b.settled.toString(),
+        reserved: formatAmount(b.reserved, b.chainId),
+        reservedRaw: b.reserved.toString(),
+        activeHolds: b.activeHolds,
+        sessionKeys: b.sessionKeys,
+        expiry: b.expiry ? new Date(b.expiry * 1000).toISOString() : null,
+        closed: b.closedAt !== null,
+        closedAt: b.closedAt ? new Date(b.closedAt).toISOString() : null,
+      })),
+    });
+  });
+
+  /**
+   * POST /v1/admin/refresh-models (alias: /v1/admin/refresh-pricing)
+   * Refresh models and pricing from the upstream
+   */
+  router.post(['/v1/admin/refresh-models', '/v1/admin/refresh-pricing'], async (req, res) => {
+    try {
+      await catalog.refresh();
+      res.json({
+        success: true,
+        models: catalog.getSupportedModels().length,
+        refreshedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Refresh failed',
+      });
+    }
+  });
+
+  /**
+   * Health check
+   */
+  router.get('/health', (req, res) => {
+    res.json({
+      status: 'ok',
+      provider: drainService.getProviderAddress(),
+      providerName,
+      models: catalog.getSupportedModels().length,
+    });
+  });
+
+  return router;
+}
@@ -0,0 +1,241 @@
+/**
+ * RPC Pool
+ *
+ * Read access to several RPC endpoints with health-ordered failover,
+ * per-endpoint health tracking and optional quorum reads.
+ */
+
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  ExecutionRevertedError,
+  TransactionNotFoundError,
+  TransactionReceiptNotFoundError,
+  createPublicClient,
+  fallback,
+  http,
+  type Chain,
+  type PublicClient,
+  type Transport,
+} from 'viem';
+
+/** Consecutive failures before an endpoint is demoted */
+const UNHEALTHY_AFTER_FAILURES = 3;
+
+/** Seconds a demoted endpoint waits before being tried first again */
+const UNHEALTHY_COOLDOWN = 30;
+
+/**
+ * Health of one RPC endpoint
+ */
+export interface RpcEndpointHealth {
+  url: string;
+  healthy: boolean;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastLatencyMs?: number;
+  lastError?: string;
+  lastFailureAt?: number;
+}
+
+/**
+ * Not enough endpoints agreed on a quorum read
+ */
+export class RpcQuorumError extends BaseError {
+  constructor(quorum: number, agreeing: number, reachable: number) {
+    super(`RPC quorum not reached: ${agreeing}/${quorum} endpoints agree (${reachable} reachable)`);
+    this.name = 'RpcQuorumError';
+  }
+}
+
+/**
+ * Transport for one RPC URL (default: HTTP)
+ */
+export type RpcTransportFactory = (url: string) => Transport;
+
+const httpTransport: RpcTransportFactory = url => http(url);
+
+/**
+ * Fallback transport over `urls`, or the chain's default RPC if empty
+ */
+export function createRpcTransport(chain: Chain, urls: string[] = [], transport: RpcTransportFactory = httpTransport): Transport {
+  const list = urls.length > 0 ? urls : [chain.rpcUrls.default.http[0]];
+  return list.length === 1 ? transport(list[0]) : fallback(list.map(transport));
+}
+
+/**
+ * Whether an error is the chain's answer rather than an endpoint fault:
+ * a revert (bad signature, already claimed) or a missing transaction.
+ * Every endpoint would answer the same, so these neither fail over nor
+ * count against health.
+ */
+function isExecutionError(error: unknown): boolean {
+  return error instanceof BaseError && error.walk(e =>
+    e instanceof ContractFunctionRevertedError ||
+    e instanceof ExecutionRevertedError ||
+    e instanceof TransactionNotFoundError ||
+    e instanceof TransactionReceiptNotFoundError
+  ) !== null;
+}
+
+interface Endpoint {
+  client: PublicClient;
+  health: RpcEndpointHealth;
+}
+
+/**
+ * Health-tracked pool of read endpoints
+ */
+export class RpcPool {
+  /** Fallback client over all endpoints, for watchers and one-off calls */
+  readonly client: PublicClient;
+  private endpoints: Endpoint[];
+  private quorum: number;
+
+  constructor(chain: Chain, urls: string[] = [], quorum: number = 1, transport: RpcTransportFactory = httpTransport) {
+    const list = urls.length > 0 ? urls : [chain.rpcUrls.default.http[0]];
+
+    if (quorum > list.length) {
+      throw new Error(`RPC_QUORUM ${quorum} exceeds the ${list.length} configured RPC endpoint(s)`);
+    }
+
+    this.quorum = Math.max(1, quorum);
+    this.client = createPublicClient({ chain, transport: createRpcTransport(chain, list, transport) });
+    this.endpoints = list.map(url => ({
+      client: createPublicClient({ chain, transport: transport(url) }),
+      health: {
+        url,
+        healthy: true,
+        successes: 0,
+        failures: 0,
+        consecutiveFailures: 0,
+      },
+    }));
+  }
+
+  /**
+   * Run a read on the healthiest endpoint, failing over to the next on
+   * transport errors. Execution errors (reverts) are thrown at once.
+   * Throws the last error if every endpoint fails.
+   */
+  async read<T>(fn: (client: PublicClient) => Promise<T>): Promise<T> {
+    let lastError: unknown;
+
+    for (const endpoint of this.ordered()) {
+      try {
+        return await this.call(endpoint, fn);
+      } catch (error) {
+        if (isExecutionError(error)) throw error;
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Run a read on every endpoint and return the value at least
+   * RPC_QUORUM endpoints agree on. Same as read() without a quorum.
+   */
+  async readQuorum<T>(fn: (client: PublicClient) => Promise<T>): Promise<T> {
+    if (this.quorum <= 1) return this.read(fn);
+
+    const results = await Promise.allSettled(this.endpoints.map(e => this.call(e, fn)));
+
+    const tally = new Map<string, { value: T; count: number }>();
+    let reachable = 0;
+    for (const result of results) {
+      if (result.status !== 'fulfilled') continue;
+      reachable++;
+      const key = fingerprint(result.value);
+      const entry = tally.get(key) ?? { value: result.value, count: 0 };
+      entry.count++;
+      tally.set(key, entry);
+    }
+
+    let best: { value: T; count: number } | null = null;
+    for (const entry of tally.values()) {
+      if (!best || entry.count > best.count) best = entry;
+    }
+
+    // Every endpoint that answered reverted: that is the result
+    const reverted = results.find(r => r.status === 'rejected' && isExecutionError(r.reason));
+    if (!best && reverted?.status === 'rejected') throw reverted.reason;
+
+    if (!best || best.count < this.quorum) {
+      throw new RpcQuorumError(this.quorum, best?.count ?? 0, reachable);
+    }
+    return best.value;
+  }
+
+  /**
+   * Per-endpoint health
+   */
+  getHealth(): { quorum: number; endpoints: RpcEndpointHealth[] } {
+    return {
+      quorum: this.quorum,
+      endpoints: this.endpoints.map(e => ({ ...e.health, url: redact(e.health.url) })),
+    };
+  }
+
+  /**
+   * Healthy endpoints first (in configured order), then demoted ones
+   */
+  private ordered(): Endpoint[] {
+    const now = Date.now();
+    for (const { health } of this.endpoints) {
+      if (!health.healthy && health.lastFailureAt && now - health.lastFailureAt > UNHEALTHY_COOLDOWN * 1000) {
+        health.healthy = true;
+      }
+    }
+    return [
+      ...this.endpoints.filter(e => e.health.healthy),
+      ...this.endpoints.filter(e => !e.health.healthy),
+    ];
+  }
+
+  private async call<T>(endpoint: Endpoint, fn: (client: PublicClient) => Promise<T>): Promise<T> {
+    const { health } = endpoint;
+    const started = Date.now();
+
+    try {
+      const value = await fn(endpoint.client);
+      health.successes++;
+      health.consecutiveFailures = 0;
+      health.healthy = true;
+      health.lastLatencyMs = Date.now() - started;
+      return value;
+    } catch (error) {
+      if (isExecutionError(error)) throw error;
+      health.failures++;
+      health.consecutiveFailures++;
+      health.lastFailureAt = Date.now();
+      health.lastError = error instanceof BaseError ? error.shortMessage : String(error);
+      if (health.consecutiveFailures >= UNHEALTHY_AFTER_FAILURES && health.healthy) {
+        health.healthy = false;
+        console.warn(`[rpc] ${redact(health.url)} marked unhealthy: ${health.lastError}`);
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Comparable form of a read result (bigints as strings)
+ */
+function fingerprint(value: unknown): string {
+  return JSON.stringify(value, (_, v) => (typeof v === 'bigint' ? v.toString() : v));
+}
+
+/**
+ * Hide API keys embedded in RPC URLs (path or query)
+ */
+function redact(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.protocol}//${parsed.host}${parsed.pathname.length > 1 ? '/…' : ''}`;
+  } catch {
+    return url;
+  }
+}
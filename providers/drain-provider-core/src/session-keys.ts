@@ -0,0 +1,49 @@
+/**
+ * Session Keys
+ *
+ * A consumer can let a hot session key sign vouchers for one channel by
+ * signing an EIP-712 `SessionKey` delegation once with the channel key:
+ *
+ *   SessionKey(bytes32 channelId, address sessionKey, uint256 maxAmount, uint256 expiry)
+ *
+ * Vouchers signed by the session key are accepted up to `maxAmount`
+ * (cumulative voucher amount) until `expiry` (unix seconds).
+ */
+
+import type { Address, Hash, Hex } from 'viem';
+import type { SessionKeyDelegation } from './types.js';
+import { ADDRESS_PATTERN, HASH_PATTERN, SIGNATURE_PATTERN, isUint256 } from './validation.js';
+
+/**
+ * Validate delegation fields and normalise them into a SessionKeyDelegation.
+ * maxAmount must be a decimal string within uint256 or a safe-integer
+ * number, expiry a positive integer.
+ * The channelId is lowercased like voucher channel ids.
+ */
+export function normalizeSessionKeyDelegation(value: unknown): SessionKeyDelegation | null {
+  if (!value || typeof value !== 'object') return null;
+  const { channelId, sessionKey, maxAmount, expiry, signature, chainId } = value as Record<string, unknown>;
+
+  if (typeof channelId !== 'string' || !HASH_PATTERN.test(channelId)) return null;
+  if (typeof sessionKey !== 'string' || !ADDRESS_PATTERN.test(sessionKey)) return null;
+  if (typeof signature !== 'string' || !SIGNATURE_PATTERN.test(signature)) return null;
+  if (!isUint256(maxAmount)) return null;
+
+  const parsedExpiry = Number(expiry);
+  if (!Number.isSafeInteger(parsedExpiry) || parsedExpiry <= 0) return null;
+
+  let parsedChainId: number | undefined;
+  if (chainId !== undefined) {
+    parsedChainId = Number(chainId);
+    if (!Number.isSafeInteger(parsedChainId) || parsedChainId <= 0) return null;
+  }
+
+  return {
+    channelId: channelId.toLowerCase() as Hash,
+    sessionKey: sessionKey as Address,
+    maxAmount: BigInt(maxAmount).toString(),
+    expiry: parsedExpiry,
+    signature: signature as Hex,
+    chainId: parsedChainId,
+  };
+}
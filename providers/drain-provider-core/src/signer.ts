@@ -0,0 +1,145 @@
+/**
+ * Provider Signer
+ *
+ * Account that signs claim and sweep transactions:
+ * - raw: private key from config (PROVIDER_PRIVATE_KEY), for development
+ * - keystore: encrypted JSON keystore (Web3 Secret Storage v3), password
+ *   from a file or env
+ * - remote: JSON-RPC signer over HTTP (eth_signTransaction, eth_sign,
+ *   eth_signTypedData_v4), e.g. Web3Signer, Clef or a KMS proxy. The key
+ *   never enters this process.
+ *
+ * Every mode yields a viem local account, so the rest of the service
+ * does not care where the key lives.
+ */
+
+import { createDecipheriv, pbkdf2Sync, scryptSync } from 'crypto';
+import { readFileSync } from 'fs';
+import {
+  concat,
+  formatTransactionRequest,
+  isAddressEqual,
+  keccak256,
+  numberToHex,
+  recoverMessageAddress,
+  stringify,
+  toHex,
+  type Hex,
+  type TransactionRequest,
+} from 'viem';
+import { privateKeyToAccount, toAccount, type LocalAccount } from 'viem/accounts';
+import type { SignerOptions } from './types.js';
+
+/** Seconds to wait for a remote signer response */
+const REMOTE_SIGNER_TIMEOUT = 10;
+
+/**
+ * Create the signing account for a signer config
+ */
+export function createSigner(options: SignerOptions): LocalAccount {
+  switch (options.type) {
+    case 'raw':
+      return privateKeyToAccount(options.privateKey);
+    case 'keystore':
+      return privateKeyToAccount(decryptKeystore(readFileSync(options.path, 'utf-8'), keystorePassword(options)));
+    case 'remote':
+      return createRemoteSigner(options);
+  }
+}
+
+/**
+ * Check a signer controls its address: sign a probe message and recover
+ * the signer. A remote signer behind the wrong REMOTE_SIGNER_ADDRESS
+ * fails here instead of at its first claim.
+ */
+export async function verifySigner(account: LocalAccount): Promise<void> {
+  const message = `DRAIN signer check for ${account.address} at ${new Date().toISOString()}`;
+  const signature = await account.signMessage({ message });
+  const signer = await recoverMessageAddress({ message, signature });
+  if (!isAddressEqual(signer, account.address)) {
+    throw new Error(`Signer configured for ${account.address} signs as ${signer}`);
+  }
+}
+
+/**
+ * Keystore password: the password file wins over the inline password
+ */
+function keystorePassword(options: Extract<SignerOptions, { type: 'keystore' }>): string {
+  if (options.passwordFile) return readFileSync(options.passwordFile, 'utf-8').replace(/\r?\n$/, '');
+  if (options.password !== undefined) return options.password;
+  throw new Error('Keystore password required: set KEYSTORE_PASSWORD_FILE or KEYSTORE_PASSWORD');
+}
+
+/**
+ * Decrypt a version 3 JSON keystore (scrypt or pbkdf2, aes-128-ctr)
+ */
+export function decryptKeystore(keystore: string, password: string): Hex {
+  const json = JSON.parse(keystore);
+  const crypto = json.crypto ?? json.Crypto;
+  if (json.version !== 3 || !crypto) throw new Error('Unsupported keystore: expected a version 3 JSON keystore');
+
+  // 1. Derive the key
+  const params = crypto.kdfparams;
+  const salt = Buffer.from(params.salt, 'hex');
+  let derived: Buffer;
+  if (crypto.kdf === 'scrypt') {
+    derived = scryptSync(password, salt, params.dklen, { N: params.n, r: params.r, p: params.p, maxmem: 256 * params.n * params.r });
+  } else if (crypto.kdf === 'pbkdf2' && params.prf === 'hmac-sha256') {
+    derived = pbkdf2Sync(password, salt, params.c, params.dklen, 'sha256');
+  } else {
+    throw new Error(`Unsupported keystore KDF: ${crypto.kdf}`);
+  }
+
+  // 2. Check the MAC before decrypting
+  const ciphertext = Buffer.from(crypto.ciphertext, 'hex');
+  const mac = keccak256(concat([derived.subarray(16, 32), ciphertext]));
+  if (mac.slice(2) !== String(crypto.mac).toLowerCase().replace(/^0x/, '')) {
+    throw new Error('Keystore could not be decrypted: wrong password');
+  }
+
+  // 3. Decrypt
+  if (crypto.cipher !== 'aes-128-ctr') throw new Error(`Unsupported keystore cipher: ${crypto.cipher}`);
+  const decipher = createDecipheriv('aes-128-ctr', derived.subarray(0, 16), Buffer.from(crypto.cipherparams.iv, 'hex'));
+  return toHex(Buffer.concat([decipher.update(ciphertext), decipher.final()]));
+}
+
+/**
+ * Account that forwards every signature to a JSON-RPC signer
+ */
+function createRemoteSigner(options: Extract<SignerOptions, { type: 'remote' }>): LocalAccount {
+  const { url, address, token } = options;
+  let requestId = 0;
+
+  const call = async (method: string, params: unknown[]): Promise<Hex> => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token && { Authorization: `Bearer ${token}` }),
+      },
+      body: stringify({ jsonrpc: '2.0', id: ++requestId, method, params }),
+      signal: AbortSignal.timeout(REMOTE_SIGNER_TIMEOUT * 1000),
+    });
+    if (!response.ok) throw new Error(`Remote signer ${method} failed: HTTP ${response.status}`);
+
+    const body = await response.json() as { result?: Hex; error?: { message?: string } };
+    if (body.error || !body.result) {
+      throw new Error(`Remote signer ${method} failed: ${body.error?.message ?? 'empty result'}`);
+    }
+    return body.result;
+  };
+
+  return toAccount({
+    address,
+    signMessage: ({ message }) => call('eth_sign', [
+      address,
+      typeof message === 'string' ? toHex(message) : typeof message.raw === 'string' ? message.raw : toHex(message.raw),
+    ]),
+    signTransaction: transaction => call('eth_signTransaction', [{
+      ...formatTransactionRequest(transaction as TransactionRequest),
+      from: address,
+      ...(transaction.chainId !== undefined && { chainId: numberToHex(transaction.chainId) }),
+    }]),
+    signTypedData: typedData => call('eth_signTypedData_v4', [address, stringify(typedData)]),
+  });
+}
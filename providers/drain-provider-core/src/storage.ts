@@ -0,0 +1,365 @@
+/**
+ * Voucher Storage
+ * 
+ * Simple JSON file storage for vouchers.
+ * This is a reference implementation - production providers
+ * should use a proper database.
+ */
+
+import { existsSync, readFileSync, renameSync } from 'fs';
+import { writeJsonFile } from './json-file.js';
+import type { StoredVoucher, ChannelState, SessionKeyGrant, SweepRecord } from './types.js';
+import type { Hash } from 'viem';
+
+/**
+ * Ledger key for a channel: channel ids are stored lowercase, so a
+ * channel sent in another letter case or encoding is the same channel
+ */
+const channelKey = (channelId: string): Hash => channelId.toLowerCase() as Hash;
+
+interface StorageData {
+  vouchers: StoredVoucher[];
+  channels: Record<string, ChannelState>;
+  sessionKeys: Record<string, SessionKeyGrant[]>;
+  sweeps: SweepRecord[];
+  totalEarned: string;
+  totalClaimed: string;
+}
+
+/**
+ * Simple file-based storage for vouchers
+ */
+export class VoucherStorage {
+  private filePath: string;
+  private data: StorageData;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.data = this.load();
+  }
+
+  /**
+   * Load data from file
+   */
+  private load(): StorageData {
+    if (!existsSync(this.filePath)) {
+      return {
+        vouchers: [],
+        channels: {},
+        sessionKeys: {},
+        sweeps: [],
+        totalEarned: '0',
+        totalClaimed: '0',
+      };
+    }
+
+    try {
+      const content = readFileSync(this.filePath, 'utf-8');
+      const parsed = JSON.parse(content);
+      
+      // Convert string amounts back to bigint in vouchers
+      parsed.vouchers = parsed.vouchers.map((v: any) => ({
+        ...v,
+        amount: BigInt(v.amount),
+        nonce: BigInt(v.nonce),
+      }));
+      
+      // Convert string amounts back to bigint in channels
+      for (const channelId in parsed.channels) {
+        const channel = parsed.channels[channelId];
+        channel.deposit = BigInt(channel.deposit);
+        channel.totalCharged = BigInt(channel.totalCharged);
+        if (channel.lastVoucher) {
+          channel.lastVoucher.amount = BigInt(channel.lastVoucher.amount);
+          channel.lastVoucher.nonce = BigInt(channel.lastVoucher.nonce);
+        }
+      }
+
+      // Session keys were added later: older files have none
+      parsed.sessionKeys ??= {};
+      for (const channelId in parsed.sessionKeys) {
+        for (const grant of parsed.sessionKeys[channelId]) {
+          grant.maxAmount = BigInt(grant.maxAmount);
+        }
+      }
+
+      // Sweeps too
+      parsed.sweeps = (parsed.sweeps ?? []).map((s: any) => ({
+        ...s,
+        amount: BigInt(s.amount),
+        balance: BigInt(s.balance),
+      }));
+
+      return normalizeChannelIds(parsed);
+    } catch (error) {
+      // Keep the unreadable file for inspection; startup reconciliation
+      // restores settled totals and nonces from the chain and watermarks
+      const backupPath = `${this.filePath}.corrupt-${Date.now()}`;
+      renameSync(this.filePath, backupPath);
+      console.error(`Error loading storage, moved to ${backupPath} and starting fresh:`, error);
+      return {
+        vouchers: [],
+        channels: {},
+        sessionKeys: {},
+        sweeps: [],
+        totalEarned: '0',
+        totalClaimed: '0',
+      };
+    }
+  }
+
+  /**
+   * Save data to file atomically
+   */
+  private save(): void {
+    // Convert bigint to string for JSON serialization
+    const serializable = {
+      ...this.data,
+      vouchers: this.data.vouchers.map(v => ({
+        ...v,
+        amount: v.amount.toString(),
+        nonce: v.nonce.toString(),
+      })),
+      channels: Object.fromEntries(
+        Object.entries(this.data.channels).map(([id, channel]) => [
+          id,
+          {
+            ...channel,
+            deposit: channel.deposit.toString(),
+            totalCharged: channel.totalCharged.toString(),
+            lastVoucher: channel.lastVoucher ? {
+              ...channel.lastVoucher,
+              amount: channel.lastVoucher.amount.toString(),
+              nonce: channel.lastVoucher.nonce.toString(),
+            } : undefined,
+          },
+        ])
+      ),
+      sessionKeys: Object.fromEntries(
+        Object.entries(this.data.sessionKeys).map(([id, grants]) => [
+          id,
+          grants.map(g => ({ ...g, maxAmount: g.maxAmount.toString() })),
+        ])
+      ),
+      sweeps: this.data.sweeps.map(s => ({ ...s, amount: s.amount.toString(), balance: s.balance.toString() })),
+    };
+
+    writeJsonFile(this.filePath, serializable);
+  }
+
+  /**
+   * Store a new voucher
+   */
+  storeVoucher(voucher: StoredVoucher): void {
+    voucher.channelId = channelKey(voucher.channelId);
+    this.data.vouchers.push(voucher);
+    this.save();
+  }
+
+  /**
+   * Get or create channel state
+   */
+  getChannel(channelId: Hash): ChannelState | null {
+    return this.data.channels[channelKey(channelId)] ?? null;
+  }
+
+  /**
+   * Get all tracked channels
+   */
+  getChannels(): ChannelState[] {
+    return Object.values(this.data.channels);
+  }
+
+  /**
+   * Update channel state
+   */
+  updateChannel(channelId: Hash, state: ChannelState): void {
+    state.channelId = channelKey(state.channelId);
+    this.data.channels[channelKey(channelId)] = state;
+    this.save();
+  }
+
+  /**
+   * Get session keys registered for a channel
+   */
+  getSessionKeys(channelId: Hash): SessionKeyGrant[] {
+    return this.data.sessionKeys[channelKey(channelId)] ?? [];
+  }
+
+  /**
+   * Register a session key, replacing an earlier grant for the same key
+   */
+  addSessionKey(grant: SessionKeyGrant): void {
+    const grants = this.getSessionKeys(grant.channelId).filter(
+      g => g.sessionKey.toLowerCase() !== grant.sessionKey.toLowerCase() || g.chainId !== grant.chainId
+    );
+    grant.channelId = channelKey(grant.channelId);
+    this.data.sessionKeys[grant.channelId] = [...grants, grant];
+    this.save();
+  }
+
+  /**
+   * Sweeps to the treasury, oldest first
+   */
+  getSweeps(): SweepRecord[] {
+    return this.data.sweeps;
+  }
+
+  /**
+   * Record a sweep
+   */
+  addSweep(sweep: SweepRecord): void {
+    this.data.sweeps.push(sweep);
+    this.save();
+  }
+
+  /**
+   * Update a sent sweep by transaction hash
+   */
+  updateSweep(txHash: Hash, update: Pick<SweepRecord, 'status'> & Partial<Pick<SweepRecord, 'error' | 'settledAt'>>): void {
+    const sweep = this.data.sweeps.find(s => s.txHash === txHash);
+    if (!sweep) return;
+
+    Object.assign(sweep, update);
+    this.save();
+  }
+
+  /**
+   * Get all unclaimed vouchers
+   */
+  getUnclaimedVouchers(): StoredVoucher[] {
+    return this.data.vouchers.filter(v => !v.claimed);
+  }
+
+  /**
+   * Get the highest voucher per channel (for claiming), skipping closed channels
+   */
+  getHighestVoucherPerChannel(): Map<Hash, StoredVoucher> {
+    const highest = new Map<Hash, StoredVoucher>();
+    
+    for (const voucher of this.data.vouchers) {
+      if (voucher.claimed) continue;
+      if (this.data.channels[voucher.channelId]?.closedAt) continue;
+      
+      const existing = highest.get(voucher.channelId);
+      if (!existing || voucher.amount > existing.amount) {
+        highest.set(voucher.channelId, voucher);
+      }
+    }
+    
+    return highest;
+  }
+
+  /**
+   * Mark a channel's vouchers as claimed, up to `nonce` if given
+   * (later vouchers may have arrived while the claim was pending)
+   */
+  markClaimed(channelId: Hash, txHash: Hash, nonce?: bigint): void {
+    for (const voucher of this.data.vouchers) {
+      if (voucher.channelId === channelKey(channelId) && !voucher.claimed && (nonce === undefined || voucher.nonce <= nonce)) {
+        voucher.claimed = true;
+        voucher.claimedAt = Date.now();
+        voucher.claimTxHash = txHash;
+        voucher.claimStatus = 'confirmed';
+      }
+    }
+    this.save();
+  }
+
+  /**
+   * Update the claim lifecycle of one voucher
+   */
+  updateClaim(
+    channelId: Hash,
+    nonce: bigint,
+    update: Pick<StoredVoucher, 'claimStatus'> & Partial<Pick<StoredVoucher, 'claimTxHash' | 'claimAttempts' | 'lastClaimAt' | 'claimError'>>
+  ): StoredVoucher | null {
+    const voucher = this.data.vouchers.find(v => v.channelId === channelKey(channelId) && v.nonce === nonce);
+    if (!voucher) return null;
+
+    Object.assign(voucher, update);
+    this.save();
+    return voucher;
+  }
+
+  /**
+   * Vouchers whose claim transaction is in flight
+   */
+  getPendingClaims(): StoredVoucher[] {
+    return this.data.vouchers.filter(v => !v.claimed && v.claimStatus === 'pending');
+  }
+
+  /**
+   * Vouchers that ran out of claim attempts
+   */
+  getDeadLetters(): StoredVoucher[] {
+    return this.data.vouchers.filter(v => !v.claimed && v.claimStatus === 'dead_letter');
+  }
+
+  /**
+   * Get total earned (unclaimed)
+   */
+  getTotalUnclaimed(): bigint {
+    let total = 0n;
+    const highest = this.getHighestVoucherPerChannel();
+    
+    for (const voucher of highest.values()) {
+      total += voucher.amount;
+    }
+    
+    return total;
+  }
+
+  /**
+   * Get stats
+   */
+  getStats(): {
+    totalVouchers: number;
+    unclaimedVouchers: number;
+    activeChannels: number;
+  } {
+    return {
+      totalVouchers: this.data.vouchers.length,
+      unclaimedVouchers: this.data.vouchers.filter(v => !v.claimed).length,
+      activeChannels: Object.values(this.data.channels).filter(c => !c.closedAt).length,
+    };
+  }
+}
+
+/**
+ * Lowercase the channel ids of a file written before they were
+ * normalized. Entries of one channel stored under different letter cases
+ * are merged, keeping the higher settled total and the later voucher.
+ */
+function normalizeChannelIds(data: StorageData): StorageData {
+  for (const voucher of data.vouchers) {
+    voucher.channelId = channelKey(voucher.channelId);
+  }
+
+  const channels: Record<string, ChannelState> = {};
+  for (const channel of Object.values(data.channels)) {
+    const key = channelKey(channel.channelId);
+    const existing = channels[key];
+    channel.channelId = key;
+    if (channel.lastVoucher) channel.lastVoucher.channelId = key;
+
+    if (!existing) {
+      channels[key] = channel;
+      continue;
+    }
+    if (channel.totalCharged > existing.totalCharged) existing.totalCharged = channel.totalCharged;
+    if (channel.lastVoucher && (!existing.lastVoucher || channel.lastVoucher.nonce > existing.lastVoucher.nonce)) {
+      existing.lastVoucher = channel.lastVoucher;
+    }
+  }
+  data.channels = channels;
+
+  const sessionKeys: Record<string, SessionKeyGrant[]> = {};
+  for (const [channelId, grants] of Object.entries(data.sessionKeys)) {
+    const key = channelKey(channelId);
+    sessionKeys[key] = [...(sessionKeys[key] ?? []), ...grants.map(g => ({ ...g, channelId: key }))];
+  }
+  data.sessionKeys = sessionKeys;
+
+  return data;
+}
@@ -0,0 +1,96 @@
+/**
+ * Stream Top-Ups
+ *
+ * Tracks active streamed completions so a consumer can raise the
+ * authorized amount mid-stream. A stream paused at its voucher limit
+ * resumes as soon as a higher voucher is applied.
+ */
+
+import { randomUUID } from 'crypto';
+import type { Hash } from 'viem';
+import type { VoucherHeader } from './types.js';
+
+/**
+ * Streamed completion accepting top-up vouchers
+ */
+export interface ActiveStream {
+  id: string;
+  channelId: Hash;
+  /** Highest voucher accepted for this stream */
+  voucher: VoucherHeader;
+  startedAt: number;
+}
+
+/**
+ * Registry of active streams with per-stream top-up waiters
+ */
+export class StreamTopUps {
+  private streams: Map<string, ActiveStream> = new Map();
+  private waiters: Map<string, (voucher: VoucherHeader | null) => void> = new Map();
+
+  /**
+   * Register a stream paid by `voucher`
+   */
+  open(voucher: VoucherHeader): ActiveStream {
+    const stream: ActiveStream = {
+      id: randomUUID(),
+      channelId: voucher.channelId,
+      voucher,
+      startedAt: Date.now(),
+    };
+    this.streams.set(stream.id, stream);
+    return stream;
+  }
+
+  get(streamId: string): ActiveStream | null {
+    return this.streams.get(streamId) ?? null;
+  }
+
+  /**
+   * Unregister a stream, waking a pending waiter with null
+   */
+  close(streamId: string): void {
+    this.streams.delete(streamId);
+    this.waiters.get(streamId)?.(null);
+  }
+
+  /**
+   * Replace the stream's voucher and wake the paused handler
+   */
+  apply(streamId: string, voucher: VoucherHeader): boolean {
+    const stream = this.streams.get(streamId);
+    if (!stream) return false;
+
+    stream.voucher = voucher;
+    this.waiters.get(streamId)?.(voucher);
+    return true;
+  }
+
+  /**
+   * Wait up to `timeoutMs` for a voucher newer than `current`.
+   * Resolves immediately if one was applied already, null on timeout.
+   */
+  wait(streamId: string, current: VoucherHeader, timeoutMs: number): Promise<VoucherHeader | null> {
+    const stream = this.streams.get(streamId);
+    if (!stream) return Promise.resolve(null);
+    if (stream.voucher !== current) return Promise.resolve(stream.voucher);
+    if (timeoutMs <= 0) return Promise.resolve(null);
+
+    return new Promise(resolve => {
+      const done = (voucher: VoucherHeader | null) => {
+        clearTimeout(timer);
+        this.waiters.delete(streamId);
+        resolve(voucher);
+      };
+      const timer = setTimeout(() => done(null), timeoutMs);
+      this.waiters.set(streamId, done);
+    });
+  }
+
+  /**
+   * Stream metrics
+   */
+  getStats(): { activeStreams: number; awaitingTopUp: number } {
+    return { activeStreams: this.streams.size, awaitingTopUp: this.waiters.size };
+  }
+}
@@ -0,0 +1,448 @@
+/**
+ * DRAIN Provider Core Types
+ */
+
+import type { Address, Hash, Hex } from 'viem';
+import type { DrainErrorCode } from './errors.js';
+import type { RpcTransportFactory } from './rpc.js';
+
+/**
+ * Supported models and their pricing
+ */
+export interface ModelPricing {
+  /** Price per 1000 input tokens (USDC wei, 6 decimals) */
+  inputPer1k: bigint;
+  /** Price per 1000 output tokens (USDC wei, 6 decimals) */
+  outputPer1k: bigint;
+}
+
+/**
+ * Optional DRAIN tuning, read from env by loadDrainEnv()
+ */
+export interface DrainOptions {
+  /** Extra chain ids to accept channels on besides chainId (see DRAIN_DEPLOYMENTS) */
+  chainIds?: number[];
+  /** RPC endpoints per extra chain id (default: that chain's public RPC) */
+  chainRpcUrls?: Record<number, string[]>;
+  /** RPC endpoints for chainId reads, tried in order with failover (default: chain's public RPC) */
+  rpcUrls?: string[];
+  /** RPC endpoints for claim transactions (default: rpcUrls) */
+  claimRpcUrls?: string[];
+  /** Endpoints that must agree on a getChannel read (default: 1, no quorum) */
+  rpcQuorum?: number;
+  /** Seconds an on-chain channel read stays cached (default: 30, 0 disables) */
+  channelCacheTtl?: number;
+  /** Concurrent requests on a busy channel: wait in line or reject with channel_busy (default: queue) */
+  channelConcurrency?: 'queue' | 'reject';
+  /** Seconds a queued request waits for its channel before channel_busy (default: 30) */
+  channelLockTimeout?: number;
+  /** Refuse channels expiring within this many seconds (default: 900) */
+  channelExpiryWindow?: number;
+  /** Seconds a stream pauses at its voucher limit waiting for a top-up (default: 5, 0 disables) */
+  topUpTimeout?: number;
+  /** Accept vouchers signed by consumer-delegated session keys (default: false) */
+  sessionKeys?: boolean;
+  /** Durable nonce watermark file (default: storagePath with .watermarks.json) */
+  watermarkPath?: string;
+  /** Blocks scanned for our claim events at startup reconciliation (default: 200000, 0 disables) */
+  reconcileLookbackBlocks?: number;
+  /** Blocks per getLogs request in reconciliation and event catch-up (default: 10000) */
+  reconcileLogChunk?: number;
+  /** Channel event block cursor file (default: storagePath with .events.json) */
+  eventCursorPath?: string;
+  /** Blocks scanned for channel events on first start, without a cursor (default: 10000) */
+  eventLookbackBlocks?: number;
+  /** Seconds between log polls when the event subscription fails (default: 15) */
+  eventPollInterval?: number;
+  /** A claim must be worth more than this many times its gas cost (default: 2, expiring channels exempt) */
+  claimGasFactor?: number;
+  /** USD price of the chain's native gas token, for comparing gas cost to claim value (default: 1) */
+  nativeTokenPrice?: number;
+  /** Claims per multicall transaction on deployments that support it (default: 20) */
+  claimBatchSize?: number;
+  /** Claim attempts before a voucher is dead-lettered (default: 5) */
+  claimMaxAttempts?: number;
+  /** Cold-storage address claimed tokens are swept to (default: no sweeping) */
+  treasuryAddress?: Address;
+  /** Token balance (USDC wei) kept on the provider key when sweeping (default: 0) */
+  sweepFloat?: bigint;
+  /** Smallest sweep worth a transfer (USDC wei, default: 1 USDC) */
+  sweepMinAmount?: bigint;
+  /** Where the provider key lives (default: raw providerPrivateKey) */
+  signer?: SignerOptions;
+  /** Earlier provider keys: their channels are still served and claimed until they expire */
+  retiredSigners?: SignerOptions[];
+  /** Minutes between auto-claim runs (default: 10) */
+  autoClaimInterval?: number;
+  /** Seconds before expiry from which channels are auto-claimed (default: 3600) */
+  autoClaimExpiryBuffer?: number;
+  /** Also auto-claim channels above claimThreshold (default: false) */
+  autoClaimThreshold?: boolean;
+  /** Most channels queued per auto-claim run, expiring first (default: no limit) */
+  autoClaimMaxPerRun?: number;
+  /** UTC hours without threshold and daily claims (expiring channels are still claimed) */
+  autoClaimQuietHours?: QuietHours;
+  /** UTC hour of the daily claim of every channel above autoClaimDailyMin */
+  autoClaimDailyHour?: number;
+  /** Daily claim minimum (USDC wei, default: 0) */
+  autoClaimDailyMin?: bigint;
+}
+
+/**
+ * UTC hour window, end exclusive; start > end wraps midnight
+ */
+export interface QuietHours {
+  start: number;
+  end: number;
+}
+
+/**
+ * Auto-claim schedule in effect
+ */
+export interface AutoClaimPolicy {
+  intervalMinutes: number;
+  expiryBufferSeconds: number;
+  thresholdClaims: boolean;
+  maxClaimsPerRun?: number;
+  quietHours?: QuietHours;
+  dailyClaimHour?: number;
+  dailyClaimMin?: bigint;
+}
+
+/**
+ * Outcome of one auto-claim run
+ */
+export interface AutoClaimRun {
+  startedAt: number;
+  finishedAt: number;
+  quiet: boolean;
+  daily: boolean;
+  /** Channels queued by reason */
+  expiring: number;
+  threshold: number;
+  dailyClaims: number;
+  /** Channels left for a later run by autoClaimMaxPerRun */
+  deferred: number;
+  transactions: number;
+  error?: string;
+}
+
+/**
+ * Provider key source
+ */
+export type SignerOptions =
+  | { type: 'raw'; privateKey: Hex }
+  /** Encrypted JSON keystore; passwordFile wins over password */
+  | { type: 'keystore'; path: string; password?: string; passwordFile?: string }
+  /** JSON-RPC signer over HTTP holding the key for `address` */
+  | { type: 'remote'; url: string; address: Address; token?: string };
+
+/**
+ * DRAIN settings shared by every provider template
+ */
+export interface DrainConfig extends DrainOptions {
+  /** Primary chain, used for vouchers without a chainId */
+  chainId: number;
+  /** Raw provider key, used when no `signer` is set */
+  providerPrivateKey?: Hex;
+  claimThreshold: bigint;
+  storagePath: string;
+  /** Transport per RPC URL (default: HTTP), e.g. websockets or an in-process chain in tests */
+  rpcTransport?: RpcTransportFactory;
+}
+
+/**
+ * Voucher from X-DRAIN-Voucher header
+ */
+export interface VoucherHeader {
+  channelId: Hash;
+  amount: string;  // String because JSON
+  nonce: string;   // String because JSON
+  signature: Hex;
+  chainId?: number; // Omitted: provider's primary chain
+}
+
+/**
+ * Stored voucher with metadata
+ */
+export interface StoredVoucher {
+  channelId: Hash;
+  chainId?: number;
+  amount: bigint;
+  nonce: bigint;
+  signature: Hex;
+  consumer: string;
+  receivedAt: number;
+  claimed: boolean;
+  claimedAt?: number;
+  claimTxHash?: Hash;
+  /** Claim lifecycle, unset until a claim is sent */
+  claimStatus?: ClaimStatus;
+  /** Claim transactions sent for this voucher */
+  claimAttempts?: number;
+  lastClaimAt?: number;
+  claimError?: string;
+}
+
+/**
+ * Claim transaction state of a voucher. Reverted and dropped claims are
+ * retried with backoff until they become dead letters.
+ */
+export type ClaimStatus = 'pending' | 'confirmed' | 'reverted' | 'dropped' | 'dead_letter';
+
+/**
+ * Session key delegation signed by the channel consumer (POST /v1/drain/session-keys)
+ */
+export interface SessionKeyDelegation {
+  channelId: Hash;
+  sessionKey: Address;
+  maxAmount: string; // String because JSON
+  expiry: number;    // Unix seconds
+  signature: Hex;
+  chainId?: number;  // Omitted: provider's primary chain
+}
+
+/**
+ * Registered session key for a channel
+ */
+export interface SessionKeyGrant {
+  channelId: Hash;
+  chainId: number;
+  sessionKey: Address;
+  maxAmount: bigint;
+  expiry: number;
+  consumer: string;
+  registeredAt: number;
+}
+
+/**
+ * Channel state tracked by provider
+ */
+export interface ChannelState {
+  channelId: Hash;
+  chainId?: number;
+  consumer: string;
+  deposit: bigint;
+  totalCharged: bigint;
+  expiry: number;
+  lastVoucher?: StoredVoucher;
+  createdAt: number;
+  lastActivityAt: number;
+  /** Set once ChannelClosed is seen on-chain: the channel is no longer claimable */
+  closedAt?: number;
+}
+
+/**
+ * Outcome of reconciling one chain's channels
+ */
+export interface ReconcileReport {
+  chainId: number;
+  reconciled: boolean;
+  /** Channels checked against the chain */
+  channels: number;
+  /** Channels whose settled total was raised */
+  caughtUp: number;
+  /** Our ChannelClaimed events found in the lookback window */
+  claimEvents: number;
+  error?: string;
+  finishedAt: number;
+}
+
+/**
+ * Why a claim candidate was not sent
+ */
+export type ClaimSkipReason =
+  | 'chain_not_accepted'
+  | 'claim_pending'
+  | 'retry_backoff'
+  | 'dead_letter'
+  | 'below_threshold'
+  | 'already_claimed'
+  | 'wrong_provider'
+  | 'reverted'
+  | 'estimate_failed'
+  | 'not_profitable';
+
+/**
+ * One claim candidate as planned (token units of its chain)
+ */
+export interface PlannedClaim {
+  channelId: Hash;
+  chainId: number;
+  amount: bigint;
+  nonce: bigint;
+  /** Amount the claim transfers: voucher amount minus on-chain claimed */
+  value: bigint;
+  /** Provider address the channel is bound to, which sends the claim */
+  provider?: Address;
+  /** Estimated gas units */
+  gas?: bigint;
+  /** Estimated gas cost in token units */
+  gasCost?: bigint;
+  expiring: boolean;
+  action: 'claim' | 'skip';
+  reason?: ClaimSkipReason;
+  /** Revert reason from simulating the claim (reason string or error selector) */
+  revertReason?: string;
+  error?: string;
+}
+
+/**
+ * One claim transaction (several channels when batched)
+ */
+export interface ExecutedClaim {
+  chainId: number;
+  /** Sending provider address */
+  provider: Address;
+  channelIds: Hash[];
+  batched: boolean;
+  txHash?: Hash;
+  error?: string;
+}
+
+/**
+ * Planned vs executed claims of one claim run
+ */
+export interface ClaimReport {
+  /** Planned and simulated only, nothing sent */
+  dryRun: boolean;
+  planned: PlannedClaim[];
+  executed: ExecutedClaim[];
+  /** Hashes of sent claim transactions */
+  transactions: Hash[];
+}
+
+/**
+ * Sweep transfer state
+ */
+export type SweepStatus = 'pending' | 'confirmed' | 'failed';
+
+/**
+ * Transfer of claimed tokens to the treasury
+ */
+export interface SweepRecord {
+  chainId: number;
+  token: Address;
+  /** Provider address swept (active or retired key) */
+  from: Address;
+  to: Address;
+  /** Amount transferred (token units) */
+  amount: bigint;
+  /** Provider balance before the sweep (token units) */
+  balance: bigint;
+  txHash?: Hash;
+  status: SweepStatus;
+  error?: string;
+  createdAt: number;
+  settledAt?: number;
+}
+
+/**
+ * Cost calculation result
+ */
+export interface CostResult {
+  /** Cost of this request in USDC wei */
+  cost: bigint;
+  /** Input tokens used */
+  inputTokens: number;
+  /** Output tokens used */
+  outputTokens: number;
+  /** Total tokens */
+  totalTokens: number;
+}
+
+/**
+ * DRAIN response headers
+ */
+export interface DrainResponseHeaders {
+  'X-DRAIN-Cost': string;
+  'X-DRAIN-Total': string;
+  'X-DRAIN-Remaining': string;
+  'X-DRAIN-Channel': string;
+}
+
+/**
+ * DRAIN error response headers
+ */
+export interface DrainErrorHeaders {
+  'X-DRAIN-Error': DrainErrorCode;
+  'X-DRAIN-Required'?: string;
+  'X-DRAIN-Provided'?: string;
+}
+
+/**
+ * Model exposed by an upstream backend
+ */
+export interface UpstreamModel {
+  id: string;
+  name?: string;
+  contextLength?: number;
+}
+
+/**
+ * Upstream price in USD per million tokens (before markup)
+ */
+export interface UpstreamPrice {
+  inputPerM: number;
+  outputPerM: number;
+}
+
+/**
+ * Token usage reported by an upstream backend
+ */
+export interface UpstreamUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * OpenAI-style chat request forwarded to an upstream backend
+ */
+export interface ChatRequest {
+  model: string;
+  messages: any[];
+  max_tokens?: number;
+}
+
+/**
+ * Non-streaming completion result
+ */
+export interface CompletionResult {
+  /** OpenAI-compatible chat.completion body */
+  response: unknown;
+  /** Usage reported by the upstream, null if missing */
+  usage: UpstreamUsage | null;
+}
+
+/**
+ * Single streamed chunk
+ */
+export interface StreamChunk {
+  /** OpenAI-compatible chat.completion.chunk body */
+  chunk: unknown;
+  /** Text content carried by this chunk */
+  text: string;
+  /** Usage, if the upstream reports it on this chunk */
+  usage?: UpstreamUsage;
+}
+
+/**
+ * Upstream AI backend behind the DRAIN-paid router.
+ * 
+ * Adapters translate between the OpenAI-compatible API exposed to agents
+ * and the upstream client, and report token usage for billing.
+ */
+export interface UpstreamAdapter {
+  /** Short backend id, used in error codes (e.g. 'openai') */
+  readonly id: string;
+  /** Human readable backend name (e.g. 'OpenAI') */
+  readonly name: string;
+  /** List chat-capable models offered by the upstream */
+  listModels(): Promise<UpstreamModel[]>;
+  /** Fetch upstream prices for the listed models */
+  fetchPricing(models: UpstreamModel[]): Promise<Map<string, UpstreamPrice>>;
+  /** Run a non-streaming completion */
+  complete(request: ChatRequest): Promise<CompletionResult>;
+  /** Run a streaming completion */
+  stream(request: ChatRequest): AsyncIterable<StreamChunk>;
+}
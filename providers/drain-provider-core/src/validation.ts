@@ -0,0 +1,22 @@
+/**
+ * Validation
+ *
+ * Field patterns shared by the voucher and session-key parsers.
+ */
+
+export const HASH_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+export const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+/** 65-byte ECDSA, or longer contract-wallet signatures up to 8 KiB */
+export const SIGNATURE_PATTERN = /^0x(?:[0-9a-fA-F]{2}){65,8192}$/;
+export const UINT_PATTERN = /^[0-9]{1,78}$/;
+
+export const MAX_UINT256 = 2n ** 256n - 1n;
+
+/**
+ * Decimal string within uint256, or a non-negative safe-integer JSON
+ * number as sent by clients predating the string form
+ */
+export function isUint256(value: unknown): value is string | number {
+  if (typeof value === 'number') return Number.isSafeInteger(value) && value >= 0;
+  return typeof value === 'string' && UINT_PATTERN.test(value) && BigInt(value) <= MAX_UINT256;
+}
@@ -0,0 +1,153 @@
+/**
+ * Voucher Encodings
+ *
+ * Vouchers can reach the provider as:
+ * - JSON in `X-DRAIN-Voucher`
+ * - a base64url compact token in `X-DRAIN-Voucher`
+ * - `Authorization: DRAIN <token>` (compact or JSON)
+ * - a body field (object, JSON or compact string), for clients that
+ *   cannot set custom headers
+ *
+ * Compact token: base64url of channelId (32 bytes) ‖ amount (uint256) ‖
+ * nonce (uint256) ‖ signature (65 bytes) [‖ chainId (uint64)].
+ * Longer contract-wallet signatures (EIP-1271, ERC-6492) need the JSON form.
+ */
+
+import type { Request } from 'express';
+import { bytesToHex, hexToBytes, type Hash, type Hex } from 'viem';
+import type { VoucherHeader } from './types.js';
+import { HASH_PATTERN, SIGNATURE_PATTERN, isUint256 } from './validation.js';
+
+const COMPACT_LENGTH = 32 + 32 + 32 + 65;
+const COMPACT_LENGTH_WITH_CHAIN = COMPACT_LENGTH + 8;
+
+/** Authorization scheme for vouchers */
+export const DRAIN_AUTH_SCHEME = 'DRAIN';
+
+/**
+ * Validate voucher fields and normalise them into a VoucherHeader.
+ * Amount and nonce must be decimal strings within uint256 (safe-integer
+ * numbers are accepted too). The channelId
+ * is lowercased, so JSON and compact forms of a channel share one ledger.
+ */
+export function normalizeVoucher(value: unknown): VoucherHeader | null {
+  if (!value || typeof value !== 'object') return null;
+  const { channelId, amount, nonce, signature, chainId } = value as Record<string, unknown>;
+
+  if (typeof channelId !== 'string' || !HASH_PATTERN.test(channelId)) return null;
+  if (typeof signature !== 'string' || !SIGNATURE_PATTERN.test(signature)) return null;
+  if (!isUint256(amount) || !isUint256(nonce)) return null;
+
+  let parsedChainId: number | undefined;
+  if (chainId !== undefined) {
+    parsedChainId = Number(chainId);
+    if (!Number.isSafeInteger(parsedChainId) || parsedChainId <= 0) return null;
+  }
+
+  return {
+    channelId: channelId.toLowerCase() as Hash,
+    amount: BigInt(amount).toString(),
+    nonce: BigInt(nonce).toString(),
+    signature: signature as Hex,
+    chainId: parsedChainId,
+  };
+}
+
+/**
+ * Decode a voucher from JSON or a compact token
+ */
+export function decodeVoucher(raw: string): VoucherHeader | null {
+  const value = raw.trim();
+  if (value.startsWith('{')) {
+    try {
+      return normalizeVoucher(JSON.parse(value));
+    } catch {
+      return null;
+    }
+  }
+  return decodeCompactVoucher(value);
+}
+
+/**
+ * Encode a voucher as a compact base64url token
+ */
+export function encodeCompactVoucher(voucher: VoucherHeader): string {
+  if (voucher.signature.length !== 2 + 65 * 2) {
+    throw new Error('Compact vouchers carry 65-byte signatures only, use JSON for contract-wallet signatures');
+  }
+
+  const bytes = new Uint8Array(voucher.chainId === undefined ? COMPACT_LENGTH : COMPACT_LENGTH_WITH_CHAIN);
+  bytes.set(hexToBytes(voucher.channelId), 0);
+  bytes.set(uintToBytes(BigInt(voucher.amount), 32), 32);
+  bytes.set(uintToBytes(BigInt(voucher.nonce), 32), 64);
+  bytes.set(hexToBytes(voucher.signature), 96);
+  if (voucher.chainId !== undefined) {
+    bytes.set(uintToBytes(BigInt(voucher.chainId), 8), COMPACT_LENGTH);
+  }
+  return Buffer.from(bytes).toString('base64url');
+}
+
+/**
+ * Decode a compact base64url token
+ */
+export function decodeCompactVoucher(token: string): VoucherHeader | null {
+  if (!/^[A-Za-z0-9_-]+$/.test(token)) return null;
+
+  const bytes = new Uint8Array(Buffer.from(token, 'base64url'));
+  if (bytes.length !== COMPACT_LENGTH && bytes.length !== COMPACT_LENGTH_WITH_CHAIN) return null;
+
+  return normalizeVoucher({
+    channelId: bytesToHex(bytes.subarray(0, 32)),
+    amount: bytesToUint(bytes.subarray(32, 64)).toString(),
+    nonce: bytesToUint(bytes.subarray(64, 96)).toString(),
+    signature: bytesToHex(bytes.subarray(96, COMPACT_LENGTH)),
+    chainId: bytes.length === COMPACT_LENGTH_WITH_CHAIN
+      ? Number(bytesToUint(bytes.subarray(COMPACT_LENGTH)))
+      : undefined,
+  });
+}
+
+/**
+ * Read the voucher from a request: X-DRAIN-Voucher, then
+ * `Authorization: DRAIN <token>`, then `req.body[bodyField]`.
+ *
+ * `present` is false if the request carries no voucher at all,
+ * `voucher` is null if it carries one that does not decode.
+ */
+export function readVoucher(req: Request, bodyField: string): { present: boolean; voucher: VoucherHeader | null } {
+  const header = req.headers['x-drain-voucher'];
+  if (typeof header === 'string' && header.length > 0) {
+    return { present: true, voucher: decodeVoucher(header) };
+  }
+
+  const authorization = req.headers.authorization;
+  const prefix = `${DRAIN_AUTH_SCHEME} `;
+  if (authorization && authorization.slice(0, prefix.length).toUpperCase() === prefix) {
+    return { present: true, voucher: decodeVoucher(authorization.slice(prefix.length)) };
+  }
+
+  const field = req.body?.[bodyField];
+  if (field !== undefined && field !== null) {
+    return {
+      present: true,
+      voucher: typeof field === 'string' ? decodeVoucher(field) : normalizeVoucher(field),
+    };
+  }
+
+  return { present: false, voucher: null };
+}
+
+function uintToBytes(value: bigint, size: number): Uint8Array {
+  const bytes = new Uint8Array(size);
+  for (let i = size - 1; i >= 0; i--) {
+    bytes[i] = Number(value & 0xffn);
+    value >>= 8n;
+  }
+  return bytes;
+}
+
+function bytesToUint(bytes: Uint8Array): bigint {
+  let value = 0n;
+  for (const byte of bytes) value = (value << 8n) | BigInt(byte);
+  return value;
+}
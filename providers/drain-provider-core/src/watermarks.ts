@@ -0,0 +1,127 @@
+/**
+ * Nonce Watermarks
+ *
+ * Durable per-channel high-water marks (highest accepted nonce and
+ * settled total), kept in their own file next to the voucher log.
+ * If the voucher log is lost or unreadable, the watermarks still stop
+ * old vouchers from replaying as fresh credit.
+ *
+ * An unreadable file is an error rather than a fresh start. Channels are
+ * keyed by lowercase channelId, like the voucher log.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import type { Hash } from 'viem';
+import { siblingPath, writeJsonFile } from './json-file.js';
+
+/**
+ * High-water mark for one channel
+ */
+export interface NonceWatermark {
+  channelId: Hash;
+  chainId?: number;
+  /** Highest nonce accepted or claimed */
+  nonce: bigint;
+  /** Highest settled total (USDC wei) */
+  charged: bigint;
+  updatedAt: number;
+}
+
+/**
+ * Watermark file path for a voucher storage path (vouchers.json → vouchers.watermarks.json)
+ */
+export function watermarkPathFor(storagePath: string): string {
+  return siblingPath(storagePath, 'watermarks');
+}
+
+/**
+ * File-backed watermark book, only ever raised
+ */
+export class NonceWatermarks {
+  private filePath: string;
+  private marks: Map<Hash, NonceWatermark>;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.marks = this.load();
+  }
+
+  /**
+   * Load watermarks, throwing if the file exists but cannot be read
+   */
+  private load(): Map<Hash, NonceWatermark> {
+    const marks = new Map<Hash, NonceWatermark>();
+    if (!existsSync(this.filePath)) return marks;
+
+    try {
+      const parsed = JSON.parse(readFileSync(this.filePath, 'utf-8')) as Record<string, any>;
+      for (const [channelId, mark] of Object.entries(parsed)) {
+        // Files written before channel ids were lowercased: merge case variants
+        const key = channelId.toLowerCase() as Hash;
+        const existing = marks.get(key);
+        const nonce = BigInt(mark.nonce);
+        const charged = BigInt(mark.charged);
+        marks.set(key, {
+          ...mark,
+          channelId: key,
+          nonce: existing && existing.nonce > nonce ? existing.nonce : nonce,
+          charged: existing && existing.charged > charged ? existing.charged : charged,
+        });
+      }
+      return marks;
+    } catch (error) {
+      throw new Error(
+        `Nonce watermark file ${this.filePath} is unreadable (${error instanceof Error ? error.message : error}). ` +
+        'Restore it or move it aside to rebuild watermarks from the chain.'
+      );
+    }
+  }
+
+  /**
+   * Write all watermarks atomically
+   */
+  private save(): void {
+    const serializable = Object.fromEntries(
+      Array.from(this.marks.entries()).map(([id, mark]) => [
+        id,
+        { ...mark, nonce: mark.nonce.toString(), charged: mark.charged.toString() },
+      ])
+    );
+
+    writeJsonFile(this.filePath, serializable);
+  }
+
+  /**
+   * Watermark for a channel, if any
+   */
+  get(channelId: Hash): NonceWatermark | null {
+    return this.marks.get(channelId.toLowerCase() as Hash) ?? null;
+  }
+
+  /**
+   * All watermarks
+   */
+  getAll(): NonceWatermark[] {
+    return Array.from(this.marks.values());
+  }
+
+  /**
+   * Raise a channel's watermark. Lower values are ignored.
+   * Returns true if anything changed.
+   */
+  raise(channelId: Hash, chainId: number | undefined, nonce: bigint, charged: bigint): boolean {
+    channelId = channelId.toLowerCase() as Hash;
+    const mark = this.marks.get(channelId);
+    if (mark && mark.nonce >= nonce && mark.charged >= charged) return false;
+
+    this.marks.set(channelId, {
+      channelId,
+      chainId: chainId ?? mark?.chainId,
+      nonce: mark && mark.nonce > nonce ? mark.nonce : nonce,
+      charged: mark && mark.charged > charged ? mark.charged : charged,
+      updatedAt: Date.now(),
+    });
+    this.save();
+    return true;
+  }
+}
@@ -0,0 +1,101 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { registerDeployment, getDeployment, type OnChainChannel } from '../src/index.js';
+import { CHAIN_ID, consumer, provider, channelId, createTestService, startTestServer, signVoucher, postCompletion } from './helpers.js';
+
+// Bill the test chain in an 18-decimal token, so USDC formatting would show
+registerDeployment({
+  ...getDeployment(CHAIN_ID),
+  token: { symbol: 'DAI', address: `0x${'55'.repeat(20)}`, decimals: 18 },
+});
+
+/** One test completion (300 USDC wei) in 18 decimals */
+const COST = 300n * 10n ** 12n;
+
+const funded = (): OnChainChannel => ({
+  consumer: consumer.address,
+  provider: provider.address,
+  deposit: 10n ** 19n,
+  claimed: 0n,
+  expiry: BigInt(Math.floor(Date.now() / 1000) + 86400),
+});
+
+test('admin stats report amounts per chain in the chain token', async (t) => {
+  const channel = channelId(40);
+  const setup = await createTestService();
+  const { chain, cleanup } = setup;
+  chain.channels.set(channel, funded());
+  const server = await startTestServer(setup);
+  t.after(async () => { await server.close(); cleanup(); });
+
+  assert.equal((await postCompletion(server.url, await signVoucher(channel, COST, 1n))).status, 200);
+
+  const stats = await (await fetch(`${server.url}/v1/admin/stats`)).json();
+  assert.equal(stats.totalEarned, undefined);
+  assert.equal(stats.claimThreshold, undefined);
+  assert.equal(stats.chains.length, 1);
+  assert.equal(stats.chains[0].settled, '0.0003 DAI');
+  assert.equal(stats.chains[0].unclaimed, '0.0003 DAI');
+  assert.equal(stats.chains[0].claimThreshold, '1 DAI');
+});
+
+test('admin sweeps format the treasury settings in the treasury chain token', async (t) => {
+  const setup = await createTestService({
+    treasuryAddress: `0x${'66'.repeat(20)}`,
+    sweepFloat: 2_000_000n,
+  });
+  const server = await startTestServer(setup);
+  t.after(async () => { await server.close(); setup.cleanup(); });
+
+  const { treasury } = await (await fetch(`${server.url}/v1/admin/sweeps`)).json();
+  assert.equal(treasury.float, '2 DAI');
+  assert.equal(treasury.minAmount, '1 DAI');
+});
+
+test('admin auto-claim formats the policy in the chain token', async (t) => {
+  const setup = await createTestService({ autoClaimDailyHour: 0, autoClaimDailyMin: 500_000n });
+  const { service, cleanup } = setup;
+  const server = await startTestServer(setup);
+  t.after(async () => { service.stopAutoClaim(); await server.close(); cleanup(); });
+
+  service.startAutoClaim();
+  const { policy } = await (await fetch(`${server.url}/v1/admin/auto-claim`)).json();
+  assert.equal(policy.claimThreshold, '1 DAI');
+  assert.equal(policy.dailyClaim.minAmount, '0.5 DAI');
+});
+
+test('the daily claim is only marked done once its claims were sent', async (t) => {
+  const { service, storage, chain, cleanup } = await createTestService({ autoClaimDailyHour: 0 });
+  t.after(() => { service.stopAutoClaim(); cleanup(); });
+
+  const channel = channelId(41);
+  chain.channels.set(channel, funded());
+  storage.storeVoucher({
+    channelId: channel,
+    chainId: CHAIN_ID,
+    amount: COST,
+    nonce: 1n,
+    signature: '0x',
+    consumer: consumer.address,
+    receivedAt: Date.now(),
+    claimed: false,
+  });
+
+  const nextRun = async () => {
+    const previous = service.getAutoClaimStatus().lastRun;
+    while (service.getAutoClaimStatus().lastRun === previous) await new Promise(resolve => setTimeout(resolve, 5));
+  };
+
+  chain.failingMethods.add('eth_sendRawTransaction');
+  service.startAutoClaim();
+  await nextRun();
+  assert.equal(service.getAutoClaimStatus().lastRun?.dailyClaims, 1);
+  assert.equal(service.getAutoClaimStatus().lastDailyClaim, null);
+
+  // The failed claim backs off; the next run has nothing left that failed
+  chain.failingMethods.clear();
+  service.stopAutoClaim();
+  service.startAutoClaim();
+  await nextRun();
+  assert.equal(service.getAutoClaimStatus().lastDailyClaim, new Date().toISOString().slice(0, 10));
+});
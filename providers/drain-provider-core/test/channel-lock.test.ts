@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChannelLock } from '../src/index.js';
+
+const CHANNEL = `0x${'ab'.repeat(32)}`;
+
+test('concurrent acquisitions of one channel run one at a time, in FIFO order', async () => {
+  const lock = new ChannelLock();
+  const order: number[] = [];
+  let inside = 0;
+  let maxInside = 0;
+
+  await Promise.all(Array.from({ length: 20 }, async (_, i) => {
+    const release = await lock.acquire(CHANNEL, 5_000);
+    assert.ok(release);
+    inside++;
+    maxInside = Math.max(maxInside, inside);
+    order.push(i);
+    await new Promise(resolve => setTimeout(resolve, 1));
+    inside--;
+    release();
+  }));
+
+  assert.equal(maxInside, 1);
+  assert.deepEqual(order, Array.from({ length: 20 }, (_, i) => i));
+  assert.deepEqual(lock.getStats(), { lockedChannels: 0, waiting: 0 });
+});
+
+test('channel ids differing only in case share one lock', async () => {
+  const lock = new ChannelLock();
+  const release = await lock.acquire(CHANNEL, 0);
+  assert.ok(release);
+  assert.equal(await lock.acquire(CHANNEL.toUpperCase().replace('0X', '0x'), 0), null);
+  release();
+});
+
+test('a held channel is refused immediately without a wait', async () => {
+  const lock = new ChannelLock();
+  const release = await lock.acquire(CHANNEL, 0);
+  assert.ok(release);
+  assert.equal(await lock.acquire(CHANNEL, 0), null);
+  release();
+  const next = await lock.acquire(CHANNEL, 0);
+  assert.ok(next);
+  next();
+});
+
+test('waiters time out and leave the queue', async () => {
+  const lock = new ChannelLock();
+  const release = await lock.acquire(CHANNEL, 0);
+  assert.ok(release);
+
+  const results = await Promise.all([lock.acquire(CHANNEL, 10), lock.acquire(CHANNEL, 10)]);
+  assert.deepEqual(results, [null, null]);
+  assert.deepEqual(lock.getStats(), { lockedChannels: 1, waiting: 0 });
+
+  release();
+  assert.equal(lock.isLocked(CHANNEL), false);
+});
+
+test('releasing twice does not free a lock handed to the next waiter', async () => {
+  const lock = new ChannelLock();
+  const first = await lock.acquire(CHANNEL, 0);
+  const second = lock.acquire(CHANNEL, 1_000);
+  first!();
+  first!();
+  const release = await second;
+  assert.ok(release);
+  assert.equal(lock.isLocked(CHANNEL), true);
+  assert.equal(await lock.acquire(CHANNEL, 0), null);
+  release();
+});
@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { channelId, createTestService, storeTestVoucher, waitFor } from './helpers.js';
+
+const AMOUNT = 1_000_000n;
+
+test('a claim stays pending until its receipt confirms it', async (t) => {
+  const { service, storage, chain, cleanup } = await createTestService();
+  t.after(cleanup);
+  chain.autoMine = false;
+
+  const channel = channelId(80);
+  await storeTestVoucher(storage, channel, AMOUNT);
+  const { executed: [sent] } = await service.claimPayments();
+
+  const [pending] = storage.getPendingClaims();
+  assert.equal(pending.channelId, channel);
+  assert.equal(pending.claimTxHash, sent.txHash);
+  assert.equal(pending.claimed, false);
+
+  chain.mine();
+  await waitFor(() => storage.getUnclaimedVouchers().length === 0);
+  assert.equal(storage.getPendingClaims().length, 0);
+  assert.equal(chain.getChannel(channel).claimed, AMOUNT);
+});
+
+test('a reverted claim is retried with backoff', async (t) => {
+  const { service, storage, chain, cleanup } = await createTestService();
+  t.after(cleanup);
+  chain.autoMine = false;
+
+  const channel = channelId(81);
+  await storeTestVoucher(storage, channel, AMOUNT);
+  await service.claimPayments();
+
+  // Reverts on-chain although the simulation passed
+  chain.claimReverts.set(channel, 'Channel closed');
+  chain.mine();
+  await waitFor(() => storage.getPendingClaims().length === 0);
+
+  const [voucher] = storage.getUnclaimedVouchers();
+  assert.equal(voucher.claimStatus, 'reverted');
+  assert.equal(voucher.claimAttempts, 1);
+  assert.match(voucher.claimError ?? '', /^Reverted in block/);
+
+  // Backing off: the next run does not send it again
+  assert.equal((await service.claimPayments()).planned[0].reason, 'retry_backoff');
+  assert.equal(chain.transactions.length, 1);
+});
+
+test('a claim out of attempts is dead-lettered', async (t) => {
+  const { service, storage, chain, cleanup } = await createTestService({ claimMaxAttempts: 1 });
+  t.after(cleanup);
+  chain.autoMine = false;
+
+  const channel = channelId(82);
+  await storeTestVoucher(storage, channel, AMOUNT);
+  await service.claimPayments();
+
+  chain.claimReverts.set(channel, 'Channel closed');
+  chain.mine();
+  await waitFor(() => storage.getDeadLetters().length === 1);
+  assert.equal(storage.getDeadLetters()[0].channelId, channel);
+});
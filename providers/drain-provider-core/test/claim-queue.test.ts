@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ClaimQueue, type ClaimRequest } from '../src/index.js';
+import { channelId, createTestService, provider, storeTestVoucher } from './helpers.js';
+
+const AMOUNT = 1_000_000n;
+
+test('channels queued while a run is in progress are merged into one entry', async () => {
+  const runs: ClaimRequest[][] = [];
+  let finishFirst = () => {};
+  const queue = new ClaimQueue(async requests => {
+    runs.push(requests);
+    if (runs.length === 1) await new Promise<void>(resolve => { finishFirst = resolve; });
+    return { dryRun: false, planned: [], executed: [], transactions: [] };
+  });
+
+  const first = queue.enqueue([{ channelId: channelId(90), expiring: false, force: false }], 'auto');
+  const manual = queue.enqueue([{ channelId: channelId(91), expiring: false, force: true }], 'manual');
+  const auto = queue.enqueue([{ channelId: channelId(91), expiring: true, force: false }], 'auto');
+  assert.equal(queue.isQueued(channelId(90)), true);
+  assert.equal(queue.getStats().queued.length, 1);
+
+  finishFirst();
+  await Promise.all([first, manual, auto]);
+
+  assert.equal(runs.length, 2);
+  assert.equal(runs[1].length, 1);
+  assert.equal(runs[1][0].expiring, true);
+  assert.equal(runs[1][0].force, true);
+  assert.deepEqual(runs[1][0].sources, ['manual', 'auto']);
+  assert.equal(queue.getStats().runs, 2);
+});
+
+test('overlapping claim calls send each channel once with consecutive nonces', async (t) => {
+  const { service, storage, chain, cleanup } = await createTestService();
+  t.after(cleanup);
+
+  await storeTestVoucher(storage, channelId(92), AMOUNT);
+  await storeTestVoucher(storage, channelId(93), AMOUNT);
+
+  await Promise.all([service.claimPayments(), service.claimPayments(), service.claimExpiring()]);
+
+  assert.deepEqual(chain.transactions.map(tx => tx.nonce), [0, 1]);
+  assert.deepEqual(
+    chain.transactions.map(tx => tx.claims[0].channelId),
+    [channelId(92), channelId(93)]
+  );
+  assert.equal(service.getClaimQueueStats().nonces[0].nextNonces[provider.address], 2);
+});
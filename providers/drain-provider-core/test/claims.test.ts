@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { registerDeployment, getDeployment } from '../src/index.js';
+import { CHAIN_ID, channelId, createTestService, storeTestVoucher, waitFor } from './helpers.js';
+
+/** Worth claiming: 1 USDC against 100k gas at 1 gwei */
+const AMOUNT = 1_000_000n;
+
+test('claims share one multicall transaction on deployments that support it', async (t) => {
+  const deployment = getDeployment(CHAIN_ID);
+  registerDeployment({ ...deployment, multicall: true });
+  const { service, storage, chain, cleanup } = await createTestService({ claimBatchSize: 2 });
+  registerDeployment(deployment);
+  t.after(cleanup);
+
+  const channels = [channelId(70), channelId(71), channelId(72)];
+  for (const channel of channels) await storeTestVoucher(storage, channel, AMOUNT);
+
+  const report = await service.claimPayments();
+  assert.deepEqual(report.planned.map(claim => claim.action), ['claim', 'claim', 'claim']);
+  assert.deepEqual(report.executed.map(tx => tx.batched), [true, false]);
+  assert.deepEqual(chain.transactions.map(tx => tx.claims.length), [2, 1]);
+
+  await waitFor(() => storage.getUnclaimedVouchers().length === 0);
+  assert.deepEqual(chain.claimed().map(claim => claim.channelId), channels);
+});
+
+test('without multicall every claim is its own transaction', async (t) => {
+  const { service, storage, chain, cleanup } = await createTestService();
+  t.after(cleanup);
+
+  await storeTestVoucher(storage, channelId(73), AMOUNT);
+  await storeTestVoucher(storage, channelId(74), AMOUNT);
+
+  const report = await service.claimPayments();
+  assert.deepEqual(report.executed.map(tx => tx.batched), [false, false]);
+  assert.deepEqual(chain.transactions.map(tx => tx.claims.length), [1, 1]);
+});
+
+test('claims not worth their gas are skipped unless forced', async (t) => {
+  const { service, storage, chain, cleanup } = await createTestService({ claimThreshold: 0n });
+  t.after(cleanup);
+
+  // 100 USDC wei against 100 USDC wei of gas
+  await storeTestVoucher(storage, channelId(75), 100n);
+
+  const [planned] = (await service.simulateClaims()).planned;
+  assert.equal(planned.action, 'skip');
+  assert.equal(planned.reason, 'not_profitable');
+  assert.equal(planned.gas, 100_000n);
+  assert.equal(planned.gasCost, 100n);
+
+  const forced = await service.claimPayments(true);
+  assert.equal(forced.planned[0].action, 'claim');
+  assert.equal(chain.transactions.length, 1);
+});
+
+test('claims that would revert are skipped with the revert reason', async (t) => {
+  const { service, storage, chain, cleanup } = await createTestService();
+  t.after(cleanup);
+
+  const channel = channelId(76);
+  await storeTestVoucher(storage, channel, AMOUNT);
+  chain.claimReverts.set(channel, 'Invalid signature');
+
+  const report = await service.claimPayments();
+  assert.equal(report.planned[0].reason, 'reverted');
+  assert.equal(report.planned[0].revertReason, 'Invalid signature');
+  assert.equal(chain.transactions.length, 0);
+});
@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTestService, startTestServer, signVoucher, postCompletion, channelId } from './helpers.js';
+
+/** Cost of one test completion (100 input + 100 output tokens) */
+const COST = 300n;
+
+test('parallel completions replaying one voucher are charged once', async (t) => {
+  const setup = await createTestService();
+  const { service, storage, cleanup } = setup;
+  const server = await startTestServer(setup);
+  t.after(async () => { await server.close(); cleanup(); });
+
+  const channel = channelId(1);
+  const voucher = await signVoucher(channel, 1_000n, 1n);
+  const responses = await Promise.all(Array.from({ length: 8 }, () => postCompletion(server.url, voucher)));
+
+  const ok = responses.filter(r => r.status === 200);
+  const rejected = responses.filter(r => r.status === 402);
+  assert.equal(ok.length, 1);
+  assert.equal(rejected.length, 7);
+  for (const response of rejected) {
+    assert.equal(response.headers.get('x-drain-error'), 'invalid_nonce');
+  }
+
+  assert.equal(storage.getChannel(channel)?.totalCharged, COST);
+  assert.deepEqual(service.getChannelLockStats(), { lockedChannels: 0, waiting: 0 });
+});
+
+test('parallel completions with increasing vouchers never charge beyond the highest voucher', async (t) => {
+  const setup = await createTestService();
+  const { storage, cleanup } = setup;
+  const server = await startTestServer(setup);
+  t.after(async () => { await server.close(); cleanup(); });
+
+  // Each voucher authorizes exactly its own request on top of all earlier ones
+  const channel = channelId(2);
+  const vouchers = await Promise.all(Array.from({ length: 6 }, (_, i) => signVoucher(channel, COST * BigInt(i + 1), BigInt(i + 1))));
+  const responses = await Promise.all(vouchers.map(voucher => postCompletion(server.url, voucher)));
+
+  const ok = responses.filter(r => r.status === 200).length;
+  const errors = responses.filter(r => r.status !== 200).map(r => r.headers.get('x-drain-error'));
+  assert.ok(ok >= 1);
+  assert.equal(ok + errors.length, vouchers.length);
+  for (const error of errors) {
+    assert.ok(error === 'invalid_nonce' || error === 'insufficient_funds', `unexpected ${error}`);
+  }
+
+  // Charged exactly once per served request, and never beyond what was signed
+  const totalCharged = storage.getChannel(channel)?.totalCharged;
+  assert.equal(totalCharged, COST * BigInt(ok));
+  assert.ok(totalCharged! <= COST * BigInt(vouchers.length));
+
+  for (const response of responses.filter(r => r.status === 200)) {
+    assert.equal(response.headers.get('x-drain-cost'), COST.toString());
+  }
+});
+
+test('each served request reports the running channel total', async (t) => {
+  const setup = await createTestService();
+  const { storage, cleanup } = setup;
+  const server = await startTestServer(setup);
+  t.after(async () => { await server.close(); cleanup(); });
+
+  // Sent one after another, so every request arrives with the next nonce
+  const channel = channelId(3);
+  const totals: bigint[] = [];
+  const pending: Promise<Response>[] = [];
+  for (let i = 1; i <= 5; i++) {
+    pending.push(postCompletion(server.url, await signVoucher(channel, COST * BigInt(i), BigInt(i))));
+    await new Promise(resolve => setTimeout(resolve, 2));
+  }
+  for (const response of await Promise.all(pending)) {
+    if (response.status === 200) totals.push(BigInt(response.headers.get('x-drain-total')!));
+  }
+
+  const totalCharged = storage.getChannel(channel)?.totalCharged;
+  assert.equal(totalCharged, COST * BigInt(totals.length));
+  assert.deepEqual([...totals].sort((a, b) => (a < b ? -1 : 1)), totals.map((_, i) => COST * BigInt(i + 1)));
+});
+
+test('with CHANNEL_CONCURRENCY=reject, requests on a busy channel get 409 channel_busy', async (t) => {
+  const setup = await createTestService({ channelConcurrency: 'reject' });
+  const { storage, cleanup } = setup;
+  const server = await startTestServer(setup);
+  t.after(async () => { await server.close(); cleanup(); });
+
+  const channel = channelId(4);
+  const vouchers = await Promise.all(Array.from({ length: 5 }, (_, i) => signVoucher(channel, COST * 10n, BigInt(i + 1))));
+  const responses = await Promise.all(vouchers.map(voucher => postCompletion(server.url, voucher)));
+
+  const busy = responses.filter(r => r.status === 409);
+  const ok = responses.filter(r => r.status === 200);
+  assert.ok(busy.length >= 1);
+  for (const response of busy) {
+    assert.equal(response.headers.get('x-drain-error'), 'channel_busy');
+  }
+  assert.equal(storage.getChannel(channel)?.totalCharged, COST * BigInt(ok.length));
+});
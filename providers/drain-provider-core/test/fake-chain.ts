@@ -0,0 +1,430 @@
+/**
+ * In-process chain for tests: answers the JSON-RPC requests DrainService
+ * makes (channel reads, contract-wallet signatures, claim transactions,
+ * logs) through a custom viem transport, so the service is tested through
+ * its public API only.
+ */
+
+import {
+  custom,
+  decodeAbiParameters,
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeErrorResult,
+  encodeEventTopics,
+  encodeFunctionData,
+  encodeFunctionResult,
+  erc6492SignatureValidatorByteCode,
+  HttpRequestError,
+  RpcRequestError,
+  isAddressEqual,
+  keccak256,
+  numberToHex,
+  padHex,
+  parseTransaction,
+  recoverAddress,
+  recoverTransactionAddress,
+  toFunctionSelector,
+  type Address,
+  type Hash,
+  type Hex,
+  type TransactionSerialized,
+} from 'viem';
+import {
+  DRAIN_CHANNEL_ABI,
+  DRAIN_CHANNEL_EVENTS_ABI,
+  DRAIN_MULTICALL_ABI,
+  getDeployment,
+  type OnChainChannel,
+  type RpcTransportFactory,
+} from '../src/index.js';
+
+const DRAIN_ABI = [...DRAIN_CHANNEL_ABI, ...DRAIN_MULTICALL_ABI] as const;
+
+const ERROR_STRING_ABI = [{ type: 'error', name: 'Error', inputs: [{ name: 'message', type: 'string' }] }] as const;
+
+const GWEI = 1_000_000_000n;
+
+const EMPTY_CHANNEL: OnChainChannel = {
+  consumer: '0x0000000000000000000000000000000000000000',
+  provider: '0x0000000000000000000000000000000000000000',
+  deposit: 0n,
+  claimed: 0n,
+  expiry: 0n,
+};
+
+/**
+ * Claim call decoded from a transaction
+ */
+export interface FakeClaim {
+  channelId: Hash;
+  amount: bigint;
+  nonce: bigint;
+  signature: Hex;
+}
+
+/**
+ * Transaction sent to the fake chain
+ */
+export interface FakeTransaction {
+  hash: Hash;
+  from: Address;
+  nonce: number;
+  input: Hex;
+  gas: bigint;
+  claims: FakeClaim[];
+  /** Unset while pending */
+  status?: 'success' | 'reverted';
+  blockNumber?: bigint;
+}
+
+interface FakeLog {
+  topics: Hex[];
+  data: Hex;
+  blockNumber: bigint;
+  transactionHash: Hash;
+  logIndex: number;
+}
+
+/**
+ * Chain state and request log behind the test transport
+ */
+export class FakeChain {
+  readonly chainId: number;
+  readonly drainAddress: Address;
+  /** On-chain channels by lowercase id */
+  readonly channels = new Map<string, OnChainChannel>();
+  /** Contract wallets by lowercase address, with the keys they accept signatures of */
+  readonly wallets = new Map<string, Address[]>();
+  /** Revert reason per lowercase channel id for claim() */
+  readonly claimReverts = new Map<string, string>();
+  /** URLs that fail every request like an unreachable node ('*' for all) */
+  readonly down = new Set<string>();
+  /** Methods that fail on every URL, e.g. eth_sendRawTransaction */
+  readonly failingMethods = new Set<string>();
+  /** Every request, in order */
+  readonly requests: Array<{ url: string; method: string }> = [];
+  readonly transactions: FakeTransaction[] = [];
+  blockNumber = 1_000n;
+  /** Largest block range eth_getLogs accepts, like capped public RPCs */
+  maxLogRange?: bigint;
+  /** Mine sent transactions at once (otherwise they stay pending until mine()) */
+  autoMine = true;
+  /** Channel served for ids not in `channels` (default: none) */
+  defaultChannel: (channelId: Hash) => OnChainChannel | null = () => null;
+
+  private logs: FakeLog[] = [];
+
+  constructor(chainId: number) {
+    this.chainId = chainId;
+    this.drainAddress = getDeployment(chainId).drainAddress;
+  }
+
+  /** Transport for one RPC URL, for DrainConfig.rpcTransport */
+  readonly transport: RpcTransportFactory = url => custom(
+    { request: ({ method, params }) => this.request(url, method, (params ?? []) as unknown[]) },
+    { retryCount: 0 }
+  );
+
+  /**
+   * Channel as the contract would return it
+   */
+  getChannel(channelId: Hash): OnChainChannel {
+    return this.channels.get(channelId.toLowerCase()) ?? this.defaultChannel(channelId) ?? EMPTY_CHANNEL;
+  }
+
+  /**
+   * Requests of one method, optionally to one URL
+   */
+  count(method: string, url?: string): number {
+    return this.requests.filter(r => r.method === method && (url === undefined || r.url === url)).length;
+  }
+
+  /**
+   * Claims that made it on-chain, in order
+   */
+  claimed(): FakeClaim[] {
+    return this.transactions.filter(tx => tx.status === 'success').flatMap(tx => tx.claims);
+  }
+
+  /**
+   * Mine pending transactions: claims that would revert revert the
+   * whole transaction, like multicall
+   */
+  mine(): void {
+    this.blockNumber++;
+    for (const tx of this.transactions) {
+      if (tx.status) continue;
+      tx.blockNumber = this.blockNumber;
+      if (tx.claims.some(claim => this.claimRevert(tx.from, claim))) {
+        tx.status = 'reverted';
+        continue;
+      }
+      tx.status = 'success';
+      for (const claim of tx.claims) this.applyClaim(tx, claim);
+    }
+  }
+
+  /**
+   * Claim made outside the service (e.g. by another instance with the same key)
+   */
+  recordClaim(from: Address, claim: FakeClaim): void {
+    const input = encodeFunctionData({
+      abi: DRAIN_CHANNEL_ABI,
+      functionName: 'claim',
+      args: [claim.channelId, claim.amount, claim.nonce, claim.signature],
+    });
+    this.blockNumber++;
+    const tx: FakeTransaction = {
+      hash: keccak256(`${input}${this.transactions.length.toString(16).padStart(8, '0')}`),
+      from,
+      nonce: 0,
+      input,
+      gas: 100_000n,
+      claims: [claim],
+      status: 'success',
+      blockNumber: this.blockNumber,
+    };
+    this.transactions.push(tx);
+    this.applyClaim(tx, claim);
+  }
+
+  private applyClaim(tx: FakeTransaction, claim: FakeClaim): void {
+    const channel = this.getChannel(claim.channelId);
+    const amount = claim.amount - channel.claimed;
+    this.channels.set(claim.channelId.toLowerCase(), { ...channel, claimed: claim.amount });
+    this.logs.push({
+      topics: encodeEventTopics({
+        abi: DRAIN_CHANNEL_EVENTS_ABI,
+        eventName: 'ChannelClaimed',
+        args: { channelId: claim.channelId, provider: channel.provider },
+      }) as Hex[],
+      data: encodeAbiParameters([{ type: 'uint256' }], [amount]),
+      blockNumber: tx.blockNumber!,
+      transactionHash: tx.hash,
+      logIndex: this.logs.length,
+    });
+  }
+
+  /**
+   * Why claim() would revert for `sender`, or null if it succeeds
+   */
+  private claimRevert(sender: Address, claim: FakeClaim): string | null {
+    const channel = this.getChannel(claim.channelId);
+    if (!isAddressEqual(channel.provider, sender)) return 'Not provider';
+    if (claim.amount <= channel.claimed) return 'Already claimed';
+    if (claim.amount > channel.deposit) return 'Exceeds deposit';
+    return this.claimReverts.get(claim.channelId.toLowerCase()) ?? null;
+  }
+
+  private decodeClaims(data: Hex): FakeClaim[] {
+    const call = decodeFunctionData({ abi: DRAIN_ABI, data });
+    if (call.functionName === 'multicall') {
+      return call.args[0].flatMap(inner => this.decodeClaims(inner));
+    }
+    if (call.functionName !== 'claim') return [];
+    const [channelId, amount, nonce, signature] = call.args;
+    return [{ channelId, amount, nonce, signature }];
+  }
+
+  private async request(url: string, method: string, params: unknown[]): Promise<unknown> {
+    this.requests.push({ url, method });
+    if (this.down.has(url) || this.down.has('*') || this.failingMethods.has(method)) {
+      throw new HttpRequestError({ url, status: 503, details: 'Service Unavailable' });
+    }
+
+    switch (method) {
+      case 'eth_chainId':
+        return numberToHex(this.chainId);
+      case 'eth_blockNumber':
+        return numberToHex(this.blockNumber);
+      case 'eth_gasPrice':
+      case 'eth_maxPriorityFeePerGas':
+        return numberToHex(GWEI);
+      case 'eth_estimateGas':
+        return numberToHex(100_000n);
+      case 'eth_getBlockByNumber':
+        return this.formatBlock();
+      case 'eth_getCode':
+        return this.wallets.has((params[0] as Address).toLowerCase()) ? '0x01' : '0x';
+      case 'eth_getTransactionCount': {
+        const sent = this.transactions.filter(tx => isAddressEqual(tx.from, params[0] as Address));
+        return numberToHex(sent.length === 0 ? 0 : Math.max(...sent.map(tx => tx.nonce)) + 1);
+      }
+      case 'eth_call':
+        return this.call(url, params[0] as { from?: Address; to?: Address; data: Hex });
+      case 'eth_getLogs':
+        return this.getLogs(url, params[0] as { fromBlock: Hex; toBlock: Hex; topics?: Array<Hex | Hex[] | null> });
+      case 'eth_sendRawTransaction':
+        return this.sendRawTransaction(params[0] as TransactionSerialized);
+      case 'eth_getTransactionByHash': {
+        const tx = this.transactions.find(t => t.hash === params[0]);
+        return tx ? this.formatTransaction(tx) : null;
+      }
+      case 'eth_getTransactionReceipt': {
+        const tx = this.transactions.find(t => t.hash === params[0]);
+        return tx?.status ? this.formatReceipt(tx) : null;
+      }
+      default:
+        throw new RpcRequestError({ body: { method }, error: { code: -32601, message: `${method} not supported` }, url });
+    }
+  }
+
+  private async call(url: string, { from, to, data }: { from?: Address; to?: Address; data: Hex }): Promise<Hex> {
+    // ERC-6492 validator deployed in the call: (signer, hash, signature)
+    if (!to && data.startsWith(erc6492SignatureValidatorByteCode)) {
+      const [address, hash, signature] = decodeAbiParameters(
+        [{ type: 'address' }, { type: 'bytes32' }, { type: 'bytes' }],
+        `0x${data.slice(erc6492SignatureValidatorByteCode.length)}`
+      );
+      const signers = this.wallets.get(address.toLowerCase()) ?? [];
+      const signer = await recoverAddress({ hash, signature }).catch(() => null);
+      return encodeAbiParameters([{ type: 'bool' }], [signer !== null && signers.some(s => isAddressEqual(s, signer))]);
+    }
+
+    if (to && isAddressEqual(to, this.drainAddress)) {
+      const call = decodeFunctionData({ abi: DRAIN_ABI, data });
+      switch (call.functionName) {
+        case 'getChannel':
+          return encodeFunctionResult({ abi: DRAIN_ABI, functionName: 'getChannel', result: this.getChannel(call.args[0]) });
+        case 'getBalance': {
+          const channel = this.getChannel(call.args[0]);
+          return encodeFunctionResult({ abi: DRAIN_ABI, functionName: 'getBalance', result: channel.deposit - channel.claimed });
+        }
+        default:
+          for (const claim of this.decodeClaims(data)) {
+            const reason = this.claimRevert(from!, claim);
+            if (reason) this.revert(url, reason);
+          }
+          return call.functionName === 'multicall'
+            ? encodeFunctionResult({ abi: DRAIN_ABI, functionName: 'multicall', result: call.args[0].map(() => '0x' as Hex) })
+            : '0x';
+      }
+    }
+
+    // Token balances (treasury sweeps): nothing held
+    if (data.startsWith(toFunctionSelector('balanceOf(address)'))) {
+      return encodeAbiParameters([{ type: 'uint256' }], [0n]);
+    }
+    return '0x';
+  }
+
+  /**
+   * Throw a revert the way nodes report it (code 3 with the revert data)
+   */
+  private revert(url: string, reason: string): never {
+    throw new RpcRequestError({
+      body: { method: 'eth_call' },
+      error: {
+        code: 3,
+        message: `execution reverted: ${reason}`,
+        data: encodeErrorResult({ abi: ERROR_STRING_ABI, errorName: 'Error', args: [reason] }),
+      },
+      url,
+    });
+  }
+
+  private getLogs(url: string, filter: { fromBlock: Hex; toBlock: Hex; topics?: Array<Hex | Hex[] | null> }): unknown[] {
+    const from = BigInt(filter.fromBlock);
+    const to = BigInt(filter.toBlock);
+    if (this.maxLogRange !== undefined && to - from + 1n > this.maxLogRange) {
+      throw new RpcRequestError({
+        body: { method: 'eth_getLogs' },
+        error: { code: -32005, message: `block range exceeds ${this.maxLogRange}` },
+        url,
+      });
+    }
+
+    const matches = (log: FakeLog) => (filter.topics ?? []).every((topic, i) =>
+      topic === null || (Array.isArray(topic) ? topic : [topic]).some(t => t.toLowerCase() === log.topics[i]?.toLowerCase())
+    );
+
+    return this.logs
+      .filter(log => log.blockNumber >= from && log.blockNumber <= to && matches(log))
+      .map(log => ({
+        address: this.drainAddress,
+        topics: log.topics,
+        data: log.data,
+        blockNumber: numberToHex(log.blockNumber),
+        blockHash: this.blockHash(log.blockNumber),
+        transactionHash: log.transactionHash,
+        transactionIndex: '0x0',
+        logIndex: numberToHex(log.logIndex),
+        removed: false,
+      }));
+  }
+
+  private async sendRawTransaction(raw: TransactionSerialized): Promise<Hash> {
+    const parsed = parseTransaction(raw);
+    const from = await recoverTransactionAddress({ serializedTransaction: raw });
+    const tx: FakeTransaction = {
+      hash: keccak256(raw),
+      from,
+      nonce: parsed.nonce ?? 0,
+      input: parsed.data ?? '0x',
+      gas: parsed.gas ?? 0n,
+      claims: parsed.to && isAddressEqual(parsed.to, this.drainAddress) ? this.decodeClaims(parsed.data ?? '0x') : [],
+    };
+    this.transactions.push(tx);
+    if (this.autoMine) this.mine();
+    return tx.hash;
+  }
+
+  private blockHash(block: bigint): Hash {
+    return padHex(numberToHex(block), { size: 32 });
+  }
+
+  private formatBlock() {
+    return {
+      number: numberToHex(this.blockNumber),
+      hash: this.blockHash(this.blockNumber),
+      parentHash: this.blockHash(this.blockNumber - 1n),
+      timestamp: numberToHex(Math.floor(Date.now() / 1000)),
+      baseFeePerGas: numberToHex(GWEI),
+      gasLimit: numberToHex(30_000_000n),
+      gasUsed: '0x0',
+      transactions: [],
+    };
+  }
+
+  private formatTransaction(tx: FakeTransaction) {
+    return {
+      hash: tx.hash,
+      from: tx.from,
+      to: this.drainAddress,
+      nonce: numberToHex(tx.nonce),
+      input: tx.input,
+      gas: numberToHex(tx.gas),
+      maxFeePerGas: numberToHex(2n * GWEI),
+      maxPriorityFeePerGas: numberToHex(GWEI),
+      value: '0x0',
+      type: '0x2',
+      chainId: numberToHex(this.chainId),
+      blockNumber: tx.blockNumber !== undefined ? numberToHex(tx.blockNumber) : null,
+      blockHash: tx.blockNumber !== undefined ? this.blockHash(tx.blockNumber) : null,
+      transactionIndex: tx.blockNumber !== undefined ? '0x0' : null,
+      v: '0x0',
+      r: padHex('0x1', { size: 32 }),
+      s: padHex('0x1', { size: 32 }),
+    };
+  }
+
+  private formatReceipt(tx: FakeTransaction) {
+    return {
+      transactionHash: tx.hash,
+      blockNumber: numberToHex(tx.blockNumber!),
+      blockHash: this.blockHash(tx.blockNumber!),
+      transactionIndex: '0x0',
+      from: tx.from,
+      to: this.drainAddress,
+      status: tx.status === 'success' ? '0x1' : '0x0',
+      gasUsed: numberToHex(tx.gas),
+      cumulativeGasUsed: numberToHex(tx.gas),
+      effectiveGasPrice: numberToHex(GWEI),
+      contractAddress: null,
+      logs: [],
+      logsBloom: `0x${'00'.repeat(256)}`,
+      type: '0x2',
+    };
+  }
+}
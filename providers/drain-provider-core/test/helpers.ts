@@ -0,0 +1,206 @@
+/**
+ * Test helpers: a DrainService on an in-process chain, signed vouchers and
+ * the DRAIN router on a local port with a fake upstream.
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { AddressInfo } from 'net';
+import express from 'express';
+import type { Address, Hash } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import {
+  DrainService,
+  VoucherStorage,
+  ModelCatalog,
+  createDrainRouter,
+  getDeployment,
+  EIP712_DOMAIN,
+  EIP712_VOUCHER_TYPES,
+  type DrainConfig,
+  type UpstreamAdapter,
+  type VoucherHeader,
+} from '../src/index.js';
+import { FakeChain } from './fake-chain.js';
+
+export const CHAIN_ID = 80002;
+export const PROVIDER_KEY = `0x${'11'.repeat(32)}` as const;
+export const consumer = privateKeyToAccount(`0x${'22'.repeat(32)}`);
+export const provider = privateKeyToAccount(PROVIDER_KEY);
+
+/** Single RPC endpoint of the test chain */
+export const RPC_URL = 'http://rpc.test/a';
+
+/** Channel id from a small number */
+export const channelId = (n: number): Hash => `0x${n.toString(16).padStart(64, '0')}`;
+
+/**
+ * In-process test chain where any channel is ours, funded with 10 USDC
+ * and open for a day unless set in `chain.channels`
+ */
+export function createTestChain(): FakeChain {
+  const chain = new FakeChain(CHAIN_ID);
+  chain.defaultChannel = () => ({
+    consumer: consumer.address,
+    provider: provider.address,
+    deposit: 10_000_000n,
+    claimed: 0n,
+    expiry: BigInt(Math.floor(Date.now() / 1000) + 86400),
+  });
+  return chain;
+}
+
+/**
+ * DrainService on `chain`, after its startup reconciliation
+ */
+export async function createTestService(options: Partial<DrainConfig> = {}, chain: FakeChain = createTestChain()) {
+  const dir = mkdtempSync(join(tmpdir(), 'drain-test-'));
+  const storagePath = join(dir, 'vouchers.json');
+  const storage = new VoucherStorage(storagePath);
+
+  const config: DrainConfig = {
+    chainId: CHAIN_ID,
+    providerPrivateKey: PROVIDER_KEY,
+    claimThreshold: 1_000_000n,
+    storagePath,
+    rpcUrls: [RPC_URL],
+    rpcTransport: chain.transport,
+    ...options,
+  };
+  const service = new DrainService(config, storage);
+  await service.reconcileChannels();
+
+  return {
+    service,
+    storage,
+    storagePath,
+    config,
+    chain,
+    cleanup: () => rmSync(dir, { recursive: true, force: true }),
+  };
+}
+
+export type TestService = Awaited<ReturnType<typeof createTestService>>;
+
+/**
+ * Voucher stored as served, ready to be claimed
+ */
+export async function storeTestVoucher(storage: VoucherStorage, channel: Hash, amount: bigint, nonce: bigint = 1n): Promise<void> {
+  const voucher = await signVoucher(channel, amount, nonce);
+  storage.storeVoucher({
+    channelId: channel,
+    chainId: CHAIN_ID,
+    amount,
+    nonce,
+    signature: voucher.signature,
+    consumer: consumer.address,
+    receivedAt: Date.now(),
+    claimed: false,
+  });
+}
+
+/**
+ * Resolve once `condition` holds, polling every few milliseconds
+ */
+export async function waitFor(condition: () => boolean, timeoutMs: number = 5_000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error(`Condition not met within ${timeoutMs}ms`);
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+/**
+ * Voucher signed by the test consumer
+ */
+export async function signVoucher(
+  channel: Hash,
+  amount: bigint,
+  nonce: bigint,
+  signer: { signTypedData: typeof consumer.signTypedData } = consumer
+): Promise<VoucherHeader> {
+  const signature = await signer.signTypedData({
+    domain: { ...EIP712_DOMAIN, chainId: CHAIN_ID, verifyingContract: getDeployment(CHAIN_ID).drainAddress as Address },
+    types: EIP712_VOUCHER_TYPES,
+    primaryType: 'Voucher',
+    message: { channelId: channel, amount, nonce },
+  });
+  return { channelId: channel, amount: amount.toString(), nonce: nonce.toString(), signature };
+}
+
+/**
+ * Upstream with one model priced at $1 / $2 per million tokens,
+ * answering after `delayMs` with 100 input and 100 output tokens
+ * (300 USDC wei at markup 1). Streams fail after `failAfter` chunks if set.
+ */
+export function createTestAdapter(options: {
+  delayMs?: number;
+  chunks?: string[];
+  failAfter?: number;
+  /** Reported in a final chunk without content */
+  usage?: { inputTokens: number; outputTokens: number };
+} = {}): UpstreamAdapter {
+  const wait = () => new Promise(resolve => setTimeout(resolve, options.delayMs ?? 20));
+  return {
+    id: 'test',
+    name: 'Test',
+    listModels: async () => [{ id: 'test-model' }],
+    fetchPricing: async () => new Map([['test-model', { inputPerM: 1, outputPerM: 2 }]]),
+    complete: async () => {
+      await wait();
+      return {
+        response: { object: 'chat.completion', choices: [{ message: { role: 'assistant', content: 'ok' } }] },
+        usage: { inputTokens: 100, outputTokens: 100 },
+      };
+    },
+    stream: async function* () {
+      for (const [i, text] of (options.chunks ?? ['ok']).entries()) {
+        await wait();
+        if (i === options.failAfter) throw new Error('Upstream connection reset');
+        yield { chunk: { object: 'chat.completion.chunk', choices: [{ delta: { content: text } }] }, text };
+      }
+      if (options.usage) {
+        yield { chunk: { object: 'chat.completion.chunk', choices: [] }, text: '', usage: options.usage };
+      }
+    },
+  };
+}
+
+/**
+ * DRAIN router on a random local port
+ */
+export async function startTestServer(
+  { service, storage, config }: TestService,
+  adapter: UpstreamAdapter = createTestAdapter()
+): Promise<{ url: string; close: () => Promise<void> }> {
+  const catalog = new ModelCatalog(adapter, 1);
+  await catalog.refresh();
+
+  const app = express();
+  app.use(express.json());
+  app.use(createDrainRouter({ providerName: 'Test', config, catalog, drainService: service, storage }));
+
+  const server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
+
+/**
+ * POST a chat completion paid with `voucher`
+ */
+export async function postCompletion(url: string, voucher: VoucherHeader | string, body: Record<string, unknown> = {}) {
+  return fetch(`${url}/v1/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-DRAIN-Voucher': typeof voucher === 'string' ? voucher : JSON.stringify(voucher),
+    },
+    body: JSON.stringify({ model: 'test-model', messages: [{ role: 'user', content: 'hi' }], ...body }),
+  });
+}
@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isAddressEqual, type Address } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import type { OnChainChannel } from '../src/index.js';
+import { consumer, provider, channelId, createTestService, startTestServer, signVoucher, storeTestVoucher } from './helpers.js';
+
+const RETIRED_KEY = `0x${'77'.repeat(32)}` as const;
+const retired = privateKeyToAccount(RETIRED_KEY);
+
+const channelOf = (owner: Address): OnChainChannel => ({
+  consumer: consumer.address,
+  provider: owner,
+  deposit: 10_000_000n,
+  claimed: 0n,
+  expiry: BigInt(Math.floor(Date.now() / 1000) + 86400),
+});
+
+test('channels of a retired key are served and claimed with that key', async (t) => {
+  const { service, storage, chain, cleanup } = await createTestService({
+    retiredSigners: [{ type: 'raw', privateKey: RETIRED_KEY }],
+  });
+  t.after(cleanup);
+
+  const old = channelId(100);
+  const current = channelId(101);
+  chain.channels.set(old, channelOf(retired.address));
+  chain.channels.set(current, channelOf(provider.address));
+
+  assert.equal((await service.validateVoucher(await signVoucher(old, 1_000n, 1n), 100n)).valid, true);
+
+  await storeTestVoucher(storage, old, 1_000_000n);
+  await storeTestVoucher(storage, current, 1_000_000n);
+  const report = await service.claimPayments();
+
+  const planned = new Map(report.planned.map(claim => [claim.channelId, claim.provider]));
+  assert.equal(planned.get(old), retired.address);
+  assert.equal(planned.get(current), provider.address);
+
+  // One transaction per key, each from the key its channel is bound to
+  assert.equal(chain.transactions.length, 2);
+  for (const tx of chain.transactions) {
+    const owner = chain.getChannel(tx.claims[0].channelId).provider;
+    assert.ok(isAddressEqual(tx.from, owner));
+    assert.equal(tx.nonce, 0);
+  }
+});
+
+test('channels bound to neither the active nor a retired key are refused', async (t) => {
+  const { service, chain, cleanup } = await createTestService({
+    retiredSigners: [{ type: 'raw', privateKey: RETIRED_KEY }],
+  });
+  t.after(cleanup);
+
+  const channel = channelId(102);
+  chain.channels.set(channel, channelOf(`0x${'99'.repeat(20)}`));
+  assert.equal((await service.validateVoucher(await signVoucher(channel, 1_000n, 1n), 100n)).error, 'wrong_provider');
+});
+
+test('pricing advertises only the active key', async (t) => {
+  const setup = await createTestService({ retiredSigners: [{ type: 'raw', privateKey: RETIRED_KEY }] });
+  const server = await startTestServer(setup);
+  t.after(async () => { await server.close(); setup.cleanup(); });
+
+  const pricing = await (await fetch(`${server.url}/v1/pricing`)).json();
+  assert.equal(pricing.provider, provider.address);
+  assert.doesNotMatch(JSON.stringify(pricing), new RegExp(retired.address, 'i'));
+});
@@ -0,0 +1,169 @@
+/**
+ * Local Signer
+ *
+ * In-process stand-in for a remote signer: serves the same JSON-RPC over
+ * HTTP (eth_accounts, eth_signTransaction, eth_sign, eth_signTypedData_v4)
+ * from a private key held here. Test helper only, not part of the package:
+ * in production the key belongs in the signer's own process or KMS.
+ */
+
+import { createServer, type IncomingMessage } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  hexToBigInt,
+  hexToNumber,
+  isAddress,
+  isAddressEqual,
+  isHex,
+  type AccessList,
+  type Address,
+  type Hex,
+  type TransactionSerializable,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+
+/**
+ * Running local signer
+ */
+export interface LocalSigner {
+  /** JSON-RPC endpoint, for REMOTE_SIGNER_URL */
+  url: string;
+  address: Address;
+  close(): Promise<void>;
+}
+
+/**
+ * Start a local signer on `host:port` (default: 127.0.0.1, random port).
+ * With `token`, requests must carry `Authorization: Bearer <token>`.
+ */
+export function startLocalSigner(options: {
+  privateKey: Hex;
+  port?: number;
+  host?: string;
+  token?: string;
+}): Promise<LocalSigner> {
+  const account = privateKeyToAccount(options.privateKey);
+  const host = options.host ?? '127.0.0.1';
+
+  const requireAccount = (value: unknown) => {
+    if (typeof value !== 'string' || !isAddress(value) || !isAddressEqual(value, account.address)) {
+      throw new Error(`Unknown account ${String(value)}`);
+    }
+  };
+
+  const sign = async (method: string, params: unknown[]): Promise<unknown> => {
+    const [first, second] = params;
+
+    switch (method) {
+      case 'eth_accounts':
+        return [account.address];
+      case 'eth_signTransaction':
+        if (!isRecord(first)) throw new Error('Expected a transaction object');
+        requireAccount(first.from);
+        return account.signTransaction(parseTransactionRequest(first));
+      case 'eth_sign':
+        requireAccount(first);
+        if (!isHex(second)) throw new Error('Expected hex data to sign');
+        return account.signMessage({ message: { raw: second } });
+      case 'eth_signTypedData_v4':
+        requireAccount(first);
+        if (typeof second !== 'string') throw new Error('Expected typed data as a JSON string');
+        return account.signTypedData(JSON.parse(second));
+      default:
+        throw new Error(`Method ${method} not supported`);
+    }
+  };
+
+  const server = createServer(async (req, res) => {
+    const reply = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+    };
+
+    if (req.method !== 'POST') return reply(405, { error: 'POST only' });
+    if (options.token && req.headers.authorization !== `Bearer ${options.token}`) {
+      return reply(401, { error: 'Unauthorized' });
+    }
+
+    let id: unknown = null;
+    try {
+      const request: unknown = JSON.parse(await readBody(req));
+      if (!isRecord(request) || typeof request.method !== 'string') throw new Error('Invalid JSON-RPC request');
+      id = request.id ?? null;
+      const params = Array.isArray(request.params) ? (request.params as unknown[]) : [];
+      reply(200, { jsonrpc: '2.0', id, result: await sign(request.method, params) });
+    } catch (error) {
+      reply(200, { jsonrpc: '2.0', id, error: { code: -32000, message: error instanceof Error ? error.message : String(error) } });
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, host, () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://${host}:${port}`,
+        address: account.address,
+        close: () => new Promise(done => server.close(() => done())),
+      });
+    });
+  });
+}
+
+/**
+ * JSON-RPC transaction object → viem serializable transaction
+ */
+function parseTransactionRequest(tx: Record<string, unknown>): TransactionSerializable {
+  const hex = (key: string): Hex | undefined => {
+    const value = tx[key];
+    if (value === undefined || value === null) return undefined;
+    if (!isHex(value)) throw new Error(`Transaction field ${key} must be hex`);
+    return value;
+  };
+  const quantity = (key: string) => {
+    const value = hex(key);
+    return value === undefined ? undefined : hexToBigInt(value);
+  };
+  const number = (key: string) => {
+    const value = hex(key);
+    return value === undefined ? undefined : hexToNumber(value);
+  };
+
+  const to = hex('to');
+  if (to !== undefined && !isAddress(to)) throw new Error('Transaction field to must be an address');
+  const typeHex = hex('type');
+  const type = typeHex === undefined ? undefined : TRANSACTION_TYPES[typeHex];
+
+  return {
+    type,
+    chainId: number('chainId'),
+    to,
+    data: hex('data') ?? hex('input'),
+    value: quantity('value'),
+    gas: quantity('gas'),
+    nonce: number('nonce'),
+    accessList: Array.isArray(tx.accessList) ? (tx.accessList as AccessList) : undefined,
+    ...(type === 'eip1559'
+      ? { maxFeePerGas: quantity('maxFeePerGas'), maxPriorityFeePerGas: quantity('maxPriorityFeePerGas') }
+      : { gasPrice: quantity('gasPrice') }),
+  } as TransactionSerializable;
+}
+
+const TRANSACTION_TYPES: Record<string, 'legacy' | 'eip2930' | 'eip1559'> = {
+  '0x0': 'legacy',
+  '0x1': 'eip2930',
+  '0x2': 'eip1559',
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf-8');
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
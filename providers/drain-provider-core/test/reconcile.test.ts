@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CHAIN_ID, provider, channelId, createTestChain, createTestService, signVoucher } from './helpers.js';
+
+test('our claims on-chain rebuild a lost voucher log', async (t) => {
+  const chain = createTestChain();
+  const channel = channelId(60);
+  const claimed = await signVoucher(channel, 5_000n, 7n);
+  chain.recordClaim(provider.address, { channelId: channel, amount: 5_000n, nonce: 7n, signature: claimed.signature });
+
+  const { service, storage, cleanup } = await createTestService({}, chain);
+  t.after(cleanup);
+
+  const [report] = service.getReconcileStatus();
+  assert.equal(report.reconciled, true);
+  assert.equal(report.last?.claimEvents, 1);
+  assert.equal(storage.getChannel(channel)?.totalCharged, 5_000n);
+
+  // Nonce 7 was claimed: a later voucher reusing it is a replay
+  assert.equal((await service.validateVoucher(await signVoucher(channel, 6_000n, 7n), 100n)).error, 'invalid_nonce');
+  assert.equal((await service.validateVoucher(await signVoucher(channel, 6_000n, 8n), 100n)).valid, true);
+});
+
+test('a failed claim event scan falls back to on-chain claimed instead of refusing the chain', async (t) => {
+  const chain = createTestChain();
+  chain.maxLogRange = 500n;
+  const channel = channelId(61);
+  chain.recordClaim(provider.address, { channelId: channel, amount: 5_000n, nonce: 7n, signature: '0x' });
+
+  const { service, cleanup } = await createTestService({}, chain);
+  t.after(cleanup);
+
+  const [report] = service.getReconcileStatus();
+  assert.equal(report.chainId, CHAIN_ID);
+  assert.equal(report.reconciled, false);
+  assert.match(report.last?.error ?? '', /claim event scan/);
+
+  // Served meanwhile, never below what was claimed
+  assert.equal((await service.validateVoucher(await signVoucher(channel, 5_000n, 8n), 100n)).error, 'insufficient_funds');
+  assert.equal((await service.validateVoucher(await signVoucher(channel, 6_000n, 8n), 100n)).valid, true);
+  assert.equal((await service.validateVoucher(await signVoucher(channelId(62), 1_000n, 1n), 100n)).valid, true);
+});
+
+test('RECONCILE_LOG_CHUNK keeps getLogs within a capped RPC range', async (t) => {
+  const chain = createTestChain();
+  chain.maxLogRange = 500n;
+
+  const { service, cleanup } = await createTestService({ reconcileLogChunk: 500 }, chain);
+  t.after(cleanup);
+
+  assert.equal(service.getReconcileStatus()[0].reconciled, true);
+  assert.equal(chain.count('eth_getLogs'), 3);
+});
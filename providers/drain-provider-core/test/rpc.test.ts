@@ -0,0 +1,93 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ContractFunctionRevertedError, HttpRequestError } from 'viem';
+import { polygonAmoy } from 'viem/chains';
+import { RpcPool } from '../src/index.js';
+import { CHAIN_ID, consumer, channelId, createTestService, signVoucher } from './helpers.js';
+
+const URLS = ['http://127.0.0.1:1/a', 'http://127.0.0.1:1/b'];
+
+test('a contract revert is returned once and leaves endpoint health unchanged', async () => {
+  const pool = new RpcPool(polygonAmoy, URLS);
+  const before = pool.getHealth();
+
+  for (let i = 0; i < 5; i++) {
+    let calls = 0;
+    await assert.rejects(
+      pool.read(async () => {
+        calls++;
+        throw new ContractFunctionRevertedError({ abi: [], functionName: 'claim' });
+      }),
+      ContractFunctionRevertedError
+    );
+    assert.equal(calls, 1);
+  }
+
+  assert.deepEqual(pool.getHealth(), before);
+});
+
+test('transport errors fail over and count against health', async () => {
+  const pool = new RpcPool(polygonAmoy, URLS);
+
+  let calls = 0;
+  const value = await pool.read(async () => {
+    if (++calls === 1) throw new HttpRequestError({ url: URLS[0] });
+    return 'ok';
+  });
+
+  assert.equal(value, 'ok');
+  assert.equal(calls, 2);
+  const [first, second] = pool.getHealth().endpoints;
+  assert.equal(first.failures, 1);
+  assert.equal(second.successes, 1);
+});
+
+const [RPC_A, RPC_B, RPC_CLAIM] = ['http://rpc.test/a', 'http://rpc.test/b', 'http://rpc.test/claim'];
+
+test('channel reads fail over while an RPC endpoint is down', async (t) => {
+  const { service, chain, cleanup } = await createTestService({ rpcUrls: [RPC_A, RPC_B] });
+  t.after(cleanup);
+
+  chain.down.add(RPC_A);
+  const result = await service.validateVoucher(await signVoucher(channelId(50), 1_000n, 1n), 100n);
+  assert.equal(result.valid, true);
+
+  const [a, b] = service.getRpcHealth()[CHAIN_ID].endpoints;
+  assert.equal(a.failures, 1);
+  assert.match(a.lastError ?? '', /HTTP request failed/);
+  assert.ok(b.successes > 0);
+});
+
+test('quorum reads refuse vouchers when too few endpoints answer', async (t) => {
+  const { service, chain, cleanup } = await createTestService({ rpcUrls: [RPC_A, RPC_B], rpcQuorum: 2 });
+  t.after(cleanup);
+
+  assert.equal((await service.validateVoucher(await signVoucher(channelId(51), 1_000n, 1n), 100n)).valid, true);
+  assert.equal(chain.count('eth_call', RPC_A), chain.count('eth_call', RPC_B));
+
+  chain.down.add(RPC_B);
+  const result = await service.validateVoucher(await signVoucher(channelId(52), 1_000n, 1n), 100n);
+  assert.equal(result.valid, false);
+  assert.equal(result.error, 'rpc_unavailable');
+});
+
+test('claim transactions go through the claim RPC endpoints', async (t) => {
+  const { service, storage, chain, cleanup } = await createTestService({ rpcUrls: [RPC_A], claimRpcUrls: [RPC_CLAIM] });
+  t.after(cleanup);
+
+  storage.storeVoucher({
+    channelId: channelId(53),
+    chainId: CHAIN_ID,
+    amount: 2_000_000n,
+    nonce: 1n,
+    signature: '0x',
+    consumer: consumer.address,
+    receivedAt: Date.now(),
+    claimed: false,
+  });
+  const report = await service.claimPayments();
+
+  assert.equal(report.transactions.length, 1);
+  assert.equal(chain.count('eth_sendRawTransaction', RPC_CLAIM), 1);
+  assert.equal(chain.count('eth_sendRawTransaction', RPC_A), 0);
+});
@@ -0,0 +1,98 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Address, Hash } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import {
+  getDeployment,
+  EIP712_DOMAIN,
+  EIP712_SESSION_KEY_TYPES,
+  type OnChainChannel,
+  type SessionKeyDelegation,
+} from '../src/index.js';
+import { CHAIN_ID, consumer, provider, channelId, createTestService, signVoucher } from './helpers.js';
+
+const sessionKey = privateKeyToAccount(`0x${'33'.repeat(32)}`);
+
+/** Smart-contract wallet owned by the test consumer (deployed per test) */
+const WALLET: Address = `0x${'44'.repeat(20)}`;
+
+async function signDelegation(channel: Hash, maxAmount: bigint): Promise<SessionKeyDelegation> {
+  const expiry = Math.floor(Date.now() / 1000) + 3600;
+  const signature = await consumer.signTypedData({
+    domain: { ...EIP712_DOMAIN, chainId: CHAIN_ID, verifyingContract: getDeployment(CHAIN_ID).drainAddress as Address },
+    types: EIP712_SESSION_KEY_TYPES,
+    primaryType: 'SessionKey',
+    message: { channelId: channel, sessionKey: sessionKey.address, maxAmount, expiry: BigInt(expiry) },
+  });
+  return { channelId: channel, sessionKey: sessionKey.address, maxAmount: maxAmount.toString(), expiry, signature };
+}
+
+const openChannel = (owner: Address): OnChainChannel => ({
+  consumer: owner,
+  provider: provider.address,
+  deposit: 10_000_000n,
+  claimed: 0n,
+  expiry: BigInt(Math.floor(Date.now() / 1000) + 86400),
+});
+
+test('session keys are refused for EOA consumers', async (t) => {
+  const { service, storage, cleanup } = await createTestService({ sessionKeys: true });
+  t.after(cleanup);
+
+  const channel = channelId(20);
+  const result = await service.registerSessionKey(await signDelegation(channel, 1_000n));
+  assert.equal(result.registered, false);
+  assert.equal(result.error, 'session_key_unsupported');
+  assert.deepEqual(storage.getSessionKeys(channel), []);
+});
+
+test('session-key vouchers on an EOA channel are rejected even with a stored grant', async (t) => {
+  const { service, storage, cleanup } = await createTestService({ sessionKeys: true });
+  t.after(cleanup);
+
+  // A grant left over from before EOA consumers were refused
+  const channel = channelId(21);
+  storage.addSessionKey({
+    channelId: channel,
+    chainId: CHAIN_ID,
+    sessionKey: sessionKey.address,
+    maxAmount: 1_000n,
+    expiry: Math.floor(Date.now() / 1000) + 3600,
+    consumer: consumer.address,
+    registeredAt: Date.now(),
+  });
+
+  const result = await service.validateVoucher(await signVoucher(channel, 500n, 1n, sessionKey), 100n);
+  assert.equal(result.valid, false);
+  assert.equal(result.error, 'session_key_unsupported');
+});
+
+test('session-key vouchers are accepted when the contract wallet accepts them', async (t) => {
+  const { service, chain, cleanup } = await createTestService({ sessionKeys: true });
+  t.after(cleanup);
+
+  const channel = channelId(22);
+  chain.channels.set(channel, openChannel(WALLET));
+  chain.wallets.set(WALLET.toLowerCase(), [consumer.address, sessionKey.address]);
+
+  const registration = await service.registerSessionKey(await signDelegation(channel, 1_000n));
+  assert.equal(registration.registered, true);
+
+  assert.equal((await service.validateVoucher(await signVoucher(channel, 500n, 1n, sessionKey), 100n)).valid, true);
+  const overLimit = await service.validateVoucher(await signVoucher(channel, 2_000n, 2n, sessionKey), 100n);
+  assert.equal(overLimit.error, 'session_key_limit');
+});
+
+test('session-key vouchers the contract wallet would refuse at claim() are rejected', async (t) => {
+  const { service, chain, cleanup } = await createTestService({ sessionKeys: true });
+  t.after(cleanup);
+
+  const channel = channelId(23);
+  chain.channels.set(channel, openChannel(WALLET));
+  chain.wallets.set(WALLET.toLowerCase(), [consumer.address]);
+
+  assert.equal((await service.registerSessionKey(await signDelegation(channel, 1_000n))).registered, true);
+  const result = await service.validateVoucher(await signVoucher(channel, 500n, 1n, sessionKey), 100n);
+  assert.equal(result.valid, false);
+  assert.equal(result.error, 'session_key_unsupported');
+});
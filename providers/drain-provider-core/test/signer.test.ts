@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { privateKeyToAccount, toAccount } from 'viem/accounts';
+import { DrainService, VoucherStorage, verifySigner } from '../src/index.js';
+import { startLocalSigner } from './local-signer.js';
+import { CHAIN_ID, PROVIDER_KEY } from './helpers.js';
+
+function tempStorage(t: { after: (fn: () => void) => void }): string {
+  const dir = mkdtempSync(join(tmpdir(), 'drain-test-'));
+  t.after(() => rmSync(dir, { recursive: true, force: true }));
+  return join(dir, 'vouchers.json');
+}
+
+test('raw retired keys are refused next to a keystore or remote signer', (t) => {
+  const storagePath = tempStorage(t);
+  const retiredSigners = [{ type: 'raw' as const, privateKey: `0x${'77'.repeat(32)}` as const }];
+
+  for (const signer of [
+    { type: 'keystore' as const, path: join(storagePath, '..', 'missing.json'), password: 'x' },
+    { type: 'remote' as const, url: 'http://127.0.0.1:1', address: `0x${'88'.repeat(20)}` as const },
+  ]) {
+    assert.throws(
+      () => new DrainService({ chainId: CHAIN_ID, claimThreshold: 0n, storagePath, signer, retiredSigners }, new VoucherStorage(storagePath)),
+      /RETIRED_PROVIDER_KEYS is not accepted/
+    );
+  }
+});
+
+test('raw retired keys are accepted next to a raw provider key', (t) => {
+  const storagePath = tempStorage(t);
+  const service = new DrainService({
+    chainId: CHAIN_ID,
+    claimThreshold: 0n,
+    storagePath,
+    providerPrivateKey: PROVIDER_KEY,
+    retiredSigners: [{ type: 'raw', privateKey: `0x${'77'.repeat(32)}` }],
+  }, new VoucherStorage(storagePath));
+  assert.equal(service.getRetiredProviderAddresses().length, 1);
+});
+
+test('a remote signer is verified against its configured address', async (t) => {
+  const storagePath = tempStorage(t);
+  const local = await startLocalSigner({ privateKey: PROVIDER_KEY });
+  t.after(() => local.close());
+
+  const service = (address: `0x${string}`) => new DrainService({
+    chainId: CHAIN_ID,
+    claimThreshold: 0n,
+    storagePath,
+    signer: { type: 'remote', url: local.url, address },
+  }, new VoucherStorage(storagePath));
+
+  await service(local.address).verifySigners();
+  await assert.rejects(service(`0x${'99'.repeat(20)}`).verifySigners());
+});
+
+test('verifySigner rejects an account whose signatures recover to another address', async () => {
+  const impostor = privateKeyToAccount(PROVIDER_KEY);
+  const account = toAccount({
+    address: `0x${'99'.repeat(20)}`,
+    signMessage: impostor.signMessage,
+    signTransaction: impostor.signTransaction,
+    signTypedData: impostor.signTypedData,
+  });
+  await assert.rejects(verifySigner(account), /signs as 0x/);
+  await verifySigner(impostor);
+});
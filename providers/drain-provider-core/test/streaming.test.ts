@@ -0,0 +1,127 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTestService, createTestAdapter, startTestServer, signVoucher, postCompletion, channelId } from './helpers.js';
+
+/** 40 characters, priced as 10 output tokens (20 USDC wei) */
+const CHUNK = 'x'.repeat(40);
+
+/** Input of the test request, priced as 8 input tokens (8 USDC wei) */
+const INPUT_COST = 8n;
+
+/** Cost of a stream that served `chunks` chunks */
+const streamCost = (chunks: number) => INPUT_COST + 20n * BigInt(chunks);
+
+/** Content chunks served in an SSE body */
+const servedChunks = (body: string) =>
+  body.split('\n').filter(line => line.startsWith('data: {"object":"chat.completion.chunk"')).length;
+
+test('a chunk that would exceed the voucher is never served', async (t) => {
+  const setup = await createTestService({ topUpTimeout: 0 });
+  const { storage, cleanup } = setup;
+  const server = await startTestServer(setup, createTestAdapter({ delayMs: 1, chunks: Array(12).fill(CHUNK) }));
+  t.after(async () => { await server.close(); cleanup(); });
+
+  // 200 wei pays for 9 chunks (188 wei); the 10th would cost 208
+  const channel = channelId(10);
+  const response = await postCompletion(server.url, await signVoucher(channel, 200n, 1n), { stream: true });
+  const body = await response.text();
+
+  assert.equal(response.status, 200);
+  assert.equal(servedChunks(body), 9);
+  assert.match(body, /"code":"spend_limit_reached"/);
+  assert.match(body, new RegExp(`X-DRAIN-Cost: ${streamCost(9)}\n`));
+  assert.equal(storage.getChannel(channel)?.totalCharged, streamCost(9));
+});
+
+test('a held chunk is served once a top-up arrives', async (t) => {
+  const setup = await createTestService({ topUpTimeout: 5 });
+  const { storage, cleanup } = setup;
+  const server = await startTestServer(setup, createTestAdapter({ delayMs: 1, chunks: Array(12).fill(CHUNK) }));
+  t.after(async () => { await server.close(); cleanup(); });
+
+  const channel = channelId(11);
+  const response = await postCompletion(server.url, await signVoucher(channel, 200n, 1n), { stream: true });
+  const streamId = response.headers.get('x-drain-stream-id');
+  assert.ok(streamId);
+
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let body = '';
+  let toppedUp = false;
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    body += value;
+
+    if (!toppedUp && body.includes('"code":"topup_required"')) {
+      // Nothing beyond the paid amount was served while paused
+      assert.equal(servedChunks(body), 9);
+      toppedUp = true;
+      const topUp: Response = await fetch(`${server.url}/v1/drain/vouchers`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ streamId, voucher: await signVoucher(channel, 1_000n, 2n) }),
+      });
+      assert.equal(topUp.status, 200);
+    }
+  }
+
+  assert.ok(toppedUp);
+  assert.equal(servedChunks(body), 12);
+  assert.doesNotMatch(body, /spend_limit_reached/);
+  assert.equal(storage.getChannel(channel)?.totalCharged, streamCost(12));
+});
+
+test('a usage-only chunk over the voucher does not pause the stream', async (t) => {
+  const setup = await createTestService({ topUpTimeout: 5 });
+  const { storage, cleanup } = setup;
+  // Usage reports 100 output tokens (208 wei) for 6 chunks estimated at 128 wei
+  const adapter = createTestAdapter({
+    delayMs: 1,
+    chunks: Array(6).fill(CHUNK),
+    usage: { inputTokens: Number(INPUT_COST), outputTokens: 100 },
+  });
+  const server = await startTestServer(setup, adapter);
+  t.after(async () => { await server.close(); cleanup(); });
+
+  const channel = channelId(14);
+  const started = Date.now();
+  const response = await postCompletion(server.url, await signVoucher(channel, 200n, 1n), { stream: true });
+  const body = await response.text();
+
+  assert.ok(Date.now() - started < 2_000);
+  assert.doesNotMatch(body, /topup_required/);
+  assert.equal(servedChunks(body), 7);
+  assert.match(body, /\[DONE\]/);
+  assert.equal(storage.getChannel(channel)?.totalCharged, 200n);
+});
+
+test('an upstream failure mid-stream settles the chunks already served', async (t) => {
+  const setup = await createTestService();
+  const { service, storage, cleanup } = setup;
+  const server = await startTestServer(setup, createTestAdapter({ delayMs: 1, chunks: Array(6).fill(CHUNK), failAfter: 3 }));
+  t.after(async () => { await server.close(); cleanup(); });
+
+  const channel = channelId(12);
+  const response = await postCompletion(server.url, await signVoucher(channel, 1_000n, 1n), { stream: true });
+  const body = await response.text();
+
+  assert.equal(servedChunks(body), 3);
+  assert.match(body, /"error":"Upstream connection reset"/);
+  assert.doesNotMatch(body, /\[DONE\]/);
+  assert.match(body, new RegExp(`X-DRAIN-Cost: ${streamCost(3)}\n`));
+  assert.equal(storage.getChannel(channel)?.totalCharged, streamCost(3));
+  assert.equal(service.getHoldStats().activeHolds, 0);
+});
+
+test('an upstream failure before the first chunk charges nothing', async (t) => {
+  const setup = await createTestService();
+  const { service, storage, cleanup } = setup;
+  const server = await startTestServer(setup, createTestAdapter({ delayMs: 1, chunks: [CHUNK], failAfter: 0 }));
+  t.after(async () => { await server.close(); cleanup(); });
+
+  const channel = channelId(13);
+  const response = await postCompletion(server.url, await signVoucher(channel, 1_000n, 1n), { stream: true });
+  assert.equal(response.status, 500);
+  assert.equal(storage.getChannel(channel)?.totalCharged ?? 0n, 0n);
+  assert.equal(service.getHoldStats().activeHolds, 0);
+});
@@ -0,0 +1,21 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTestService, startTestServer, signVoucher, postCompletion, channelId } from './helpers.js';
+
+test('vouchers for a channel closed on-chain get channel_closed', async (t) => {
+  const setup = await createTestService();
+  const { storage, cleanup } = setup;
+  const server = await startTestServer(setup);
+  t.after(async () => { await server.close(); cleanup(); });
+
+  const channel = channelId(30);
+  assert.equal((await postCompletion(server.url, await signVoucher(channel, 1_000n, 1n))).status, 200);
+
+  // As recorded by the ChannelClosed event handler
+  storage.updateChannel(channel, { ...storage.getChannel(channel)!, closedAt: Date.now() });
+
+  const response = await postCompletion(server.url, await signVoucher(channel, 2_000n, 2n));
+  assert.equal(response.status, 402);
+  assert.equal(response.headers.get('x-drain-error'), 'channel_closed');
+  assert.equal(storage.getChannel(channel)?.totalCharged, 300n);
+});
@@ -0,0 +1,139 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import type { Hash } from 'viem';
+import {
+  decodeVoucher,
+  encodeCompactVoucher,
+  normalizeSessionKeyDelegation,
+  NonceWatermarks,
+  VoucherStorage,
+} from '../src/index.js';
+import { createTestService, startTestServer, signVoucher, postCompletion } from './helpers.js';
+
+const MIXED_CASE = `0x${'aB'.repeat(32)}` as Hash;
+const LOWER_CASE = MIXED_CASE.toLowerCase() as Hash;
+
+test('JSON and compact vouchers decode to the same lowercase channelId', async () => {
+  const voucher = await signVoucher(MIXED_CASE, 1_000n, 1n);
+
+  const fromJson = decodeVoucher(JSON.stringify(voucher));
+  const fromCompact = decodeVoucher(encodeCompactVoucher(voucher));
+  assert.equal(fromJson?.channelId, LOWER_CASE);
+  assert.deepEqual(fromJson, fromCompact);
+});
+
+test('JSON vouchers accept safe-integer amounts and nonces as numbers', async () => {
+  const voucher = await signVoucher(MIXED_CASE, 1_000n, 1n);
+  const fromNumbers = decodeVoucher(JSON.stringify({ ...voucher, amount: 1_000, nonce: 1 }));
+  assert.deepEqual(fromNumbers, decodeVoucher(JSON.stringify(voucher)));
+  assert.equal(fromNumbers?.amount, '1000');
+
+  for (const amount of [2 ** 53, -1, 1.5]) {
+    assert.equal(decodeVoucher(JSON.stringify({ ...voucher, amount })), null);
+  }
+  assert.equal(normalizeSessionKeyDelegation({
+    channelId: MIXED_CASE,
+    sessionKey: `0x${'33'.repeat(20)}`,
+    maxAmount: 1_000,
+    expiry: 2_000_000_000,
+    signature: `0x${'44'.repeat(65)}`,
+  })?.maxAmount, '1000');
+});
+
+test('session key delegations are normalized to a lowercase channelId', () => {
+  const delegation = normalizeSessionKeyDelegation({
+    channelId: MIXED_CASE,
+    sessionKey: `0x${'33'.repeat(20)}`,
+    maxAmount: '1000',
+    expiry: 2_000_000_000,
+    signature: `0x${'44'.repeat(65)}`,
+  });
+  assert.equal(delegation?.channelId, LOWER_CASE);
+});
+
+test('mixed-case JSON and compact forms of one channel share one ledger entry', async (t) => {
+  const setup = await createTestService();
+  const { storage, cleanup } = setup;
+  const server = await startTestServer(setup);
+  t.after(async () => { await server.close(); cleanup(); });
+
+  const voucher = await signVoucher(MIXED_CASE, 1_000n, 1n);
+  const first = await postCompletion(server.url, voucher);
+  assert.equal(first.status, 200);
+
+  // Replays of the spent voucher in every other form are refused
+  for (const replay of [
+    encodeCompactVoucher(voucher),
+    { ...voucher, channelId: LOWER_CASE },
+    { ...voucher, channelId: MIXED_CASE.toUpperCase().replace('0X', '0x') as Hash },
+  ]) {
+    const response = await postCompletion(server.url, replay);
+    assert.equal(response.status, 402);
+    assert.equal(response.headers.get('x-drain-error'), 'invalid_nonce');
+  }
+
+  assert.equal(storage.getChannels().length, 1);
+  assert.equal(storage.getChannel(MIXED_CASE)?.totalCharged, 300n);
+  assert.equal(storage.getChannel(LOWER_CASE)?.channelId, LOWER_CASE);
+});
+
+test('storage and watermarks look channels up in any letter case', async (t) => {
+  const { storage, storagePath, cleanup } = await createTestService();
+  t.after(cleanup);
+
+  storage.updateChannel(MIXED_CASE, {
+    channelId: MIXED_CASE,
+    consumer: `0x${'22'.repeat(20)}`,
+    deposit: 10n,
+    totalCharged: 5n,
+    expiry: 2_000_000_000,
+    createdAt: 0,
+    lastActivityAt: 0,
+  });
+  assert.equal(storage.getChannel(LOWER_CASE)?.totalCharged, 5n);
+
+  const watermarks = new NonceWatermarks(join(storagePath, '..', 'marks.json'));
+  watermarks.raise(MIXED_CASE, 80002, 3n, 5n);
+  assert.equal(watermarks.get(LOWER_CASE)?.nonce, 3n);
+  assert.equal(watermarks.raise(LOWER_CASE, 80002, 2n, 4n), false);
+});
+
+test('files with mixed-case channel ids are merged on load', async (t) => {
+  const { storagePath, cleanup } = await createTestService();
+  t.after(cleanup);
+
+  const channel = (channelId: string, totalCharged: string, nonce: string) => ({
+    channelId,
+    consumer: `0x${'22'.repeat(20)}`,
+    deposit: '10000',
+    totalCharged,
+    expiry: 2_000_000_000,
+    createdAt: 0,
+    lastActivityAt: 0,
+    lastVoucher: { channelId, amount: totalCharged, nonce, signature: '0x', consumer: '0x', receivedAt: 0, claimed: false },
+  });
+  writeFileSync(storagePath, JSON.stringify({
+    vouchers: [],
+    channels: { [MIXED_CASE]: channel(MIXED_CASE, '700', '4'), [LOWER_CASE]: channel(LOWER_CASE, '300', '2') },
+    sessionKeys: {},
+    sweeps: [],
+    totalEarned: '0',
+    totalClaimed: '0',
+  }));
+
+  const storage = new VoucherStorage(storagePath);
+  assert.equal(storage.getChannels().length, 1);
+  assert.equal(storage.getChannel(LOWER_CASE)?.totalCharged, 700n);
+  assert.equal(storage.getChannel(LOWER_CASE)?.lastVoucher?.nonce, 4n);
+
+  const marksPath = join(storagePath, '..', 'legacy.watermarks.json');
+  writeFileSync(marksPath, JSON.stringify({
+    [MIXED_CASE]: { channelId: MIXED_CASE, nonce: '4', charged: '300', updatedAt: 0 },
+    [LOWER_CASE]: { channelId: LOWER_CASE, nonce: '2', charged: '700', updatedAt: 0 },
+  }));
+  const mark = new NonceWatermarks(marksPath).get(MIXED_CASE);
+  assert.equal(mark?.nonce, 4n);
+  assert.equal(mark?.charged, 700n);
+});
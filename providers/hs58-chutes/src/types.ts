@@ -2,107 +2,15 @@
  * HS58-Chutes Provider Types
  */
 
-import type { Hash, Hex } from 'viem';
-
-/**
- * Model pricing
- */
-export interface ModelPricing {
-  inputPer1k: bigint;
-  outputPer1k: bigint;
-}
-
-/**
- * Chutes model info from API
- */
-export interface ChutesModel {
-  id: string;
-  name: string;
-  input_price: number;  // Price per million tokens
-  output_price: number;
-  context_length?: number;
-}
+import type { DrainConfig } from '@handshake58/drain-provider-core';
 
 /**
  * Provider configuration
  */
-export interface ProviderConfig {
+export interface ProviderConfig extends DrainConfig {
   chutesApiKey: string;
   port: number;
   host: string;
-  chainId: 137 | 80002;
-  providerPrivateKey: Hex;
-  pricing: Map<string, ModelPricing>;
-  claimThreshold: bigint;
-  storagePath: string;
   pricingRefreshInterval: number;
   markup: number;
 }
-
-/**
- * Voucher from X-DRAIN-Voucher header
- */
-export interface VoucherHeader {
-  channelId: Hash;
-  amount: string;
-  nonce: string;
-  signature: Hex;
-}
-
-/**
- * Stored voucher with metadata
- */
-export interface StoredVoucher {
-  channelId: Hash;
-  amount: bigint;
-  nonce: bigint;
-  signature: Hex;
-  consumer: string;
-  receivedAt: number;
-  claimed: boolean;
-  claimedAt?: number;
-  claimTxHash?: Hash;
-}
-
-/**
- * Channel state tracked by provider
- */
-export interface ChannelState {
-  channelId: Hash;
-  consumer: string;
-  deposit: bigint;
-  totalCharged: bigint;
-  expiry: number;
-  lastVoucher?: StoredVoucher;
-  createdAt: number;
-  lastActivityAt: number;
-}
-
-/**
- * Cost calculation result
- */
-export interface CostResult {
-  cost: bigint;
-  inputTokens: number;
-  outputTokens: number;
-  totalTokens: number;
-}
-
-/**
- * DRAIN response headers
- */
-export interface DrainResponseHeaders {
-  'X-DRAIN-Cost': string;
-  'X-DRAIN-Total': string;
-  'X-DRAIN-Remaining': string;
-  'X-DRAIN-Channel': string;
-}
-
-/**
- * DRAIN error response headers
- */
-export interface DrainErrorHeaders {
-  'X-DRAIN-Error': string;
-  'X-DRAIN-Required'?: string;
-  'X-DRAIN-Provided'?: string;
-}
@@ -0,0 +1,73 @@
+/**
+ * HS58-Gateway Provider Configuration
+ * 
+ * Every backend with an API key is enabled. GATEWAY_BACKENDS sets the
+ * routing priority for model ids offered by several backends.
+ */
+
+import { config } from 'dotenv';
+import { DRAIN_DEPLOYMENTS, loadDrainEnv } from '@handshake58/drain-provider-core';
+import type { BackendId, ProviderConfig } from './types.js';
+import type { Hex } from 'viem';
+
+config();
+
+const requireEnv = (name: string): string => {
+  const value = process.env[name];
+  if (!value) throw new Error(`Missing env: ${name}`);
+  return value;
+};
+
+const optionalEnv = (name: string, defaultValue: string): string => 
+  process.env[name] ?? defaultValue;
+
+/** API key env var per backend */
+const BACKEND_KEYS: Record<BackendId, string> = {
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+  xai: 'XAI_API_KEY',
+  chutes: 'CHUTES_API_KEY',
+  openrouter: 'OPENROUTER_API_KEY',
+};
+
+/** Direct backends first, aggregators last */
+const DEFAULT_PRIORITY = 'openai,anthropic,xai,chutes,openrouter';
+
+function loadBackends(): ProviderConfig['backends'] {
+  const order = optionalEnv('GATEWAY_BACKENDS', DEFAULT_PRIORITY)
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean);
+
+  const backends: ProviderConfig['backends'] = [];
+  for (const id of order) {
+    if (!(id in BACKEND_KEYS)) throw new Error(`Unknown backend in GATEWAY_BACKENDS: ${id}`);
+    const apiKey = process.env[BACKEND_KEYS[id as BackendId]];
+    if (apiKey) backends.push({ id: id as BackendId, apiKey });
+  }
+
+  if (backends.length === 0) {
+    throw new Error(`No backend API key set. Set at least one of: ${Object.values(BACKEND_KEYS).join(', ')}`);
+  }
+  return backends;
+}
+
+export function loadConfig(): ProviderConfig {
+  const chainId = parseInt(optionalEnv('CHAIN_ID', '137'));
+  if (!DRAIN_DEPLOYMENTS[chainId]) throw new Error(`Invalid CHAIN_ID: ${chainId}`);
+  const markupPercent = parseInt(optionalEnv('MARKUP_PERCENT', '50'));
+
+  return {
+    ...loadDrainEnv(),
+    backends: loadBackends(),
+    port: parseInt(optionalEnv('PORT', '3000')),
+    host: optionalEnv('HOST', '0.0.0.0'),
+    chainId,
+    providerPrivateKey: (process.env.PROVIDER_PRIVATE_KEY || undefined) as Hex | undefined,
+    claimThreshold: BigInt(optionalEnv('CLAIM_THRESHOLD', '1000000')),
+    storagePath: optionalEnv('STORAGE_PATH', './data/vouchers.json'),
+    pricingRefreshInterval: parseInt(optionalEnv('PRICING_REFRESH_INTERVAL', '3600')) * 1000,
+    markup: 1 + (markupPercent / 100),
+    marketplaceUrl: optionalEnv('MARKETPLACE_URL', 'https://handshake58.com'),
+  };
+}
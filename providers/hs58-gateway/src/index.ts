@@ -0,0 +1,88 @@
+/**
+ * HS58-Gateway Provider
+ * 
+ * One DRAIN provider process serving OpenAI, Anthropic, xAI, OpenRouter
+ * and Chutes under a single wallet and a single channel/voucher ledger.
+ */
+
+import express from 'express';
+import cors from 'cors';
+import {
+  DrainService,
+  VoucherStorage,
+  ModelCatalog,
+  OpenAIAdapter,
+  AnthropicAdapter,
+  XAIAdapter,
+  OpenRouterAdapter,
+  ChutesAdapter,
+  createDrainRouter,
+  type UpstreamAdapter,
+} from '@handshake58/drain-provider-core';
+import { loadConfig } from './config.js';
+import type { BackendId } from './types.js';
+
+// Load configuration
+const config = loadConfig();
+
+// Initialize services (one ledger for all backends)
+const storage = new VoucherStorage(config.storagePath);
+const drainService = new DrainService(config, storage);
+
+/**
+ * Create the adapter for a backend
+ */
+function createAdapter(id: BackendId, apiKey: string): UpstreamAdapter {
+  switch (id) {
+    case 'openai':
+      return new OpenAIAdapter({ apiKey, marketplaceUrl: config.marketplaceUrl });
+    case 'anthropic':
+      return new AnthropicAdapter({ apiKey, marketplaceUrl: config.marketplaceUrl });
+    case 'xai':
+      return new XAIAdapter({ apiKey, marketplaceUrl: config.marketplaceUrl });
+    case 'openrouter':
+      return new OpenRouterAdapter({ apiKey });
+    case 'chutes':
+      return new ChutesAdapter({ apiKey });
+  }
+}
+
+const adapters = config.backends.map(b => createAdapter(b.id, b.apiKey));
+const catalog = new ModelCatalog(adapters, config.markup);
+
+// Create Express app
+const app = express();
+app.use(cors());
+app.use(express.json());
+app.use(createDrainRouter({
+  providerName: 'HS58-Gateway',
+  config,
+  catalog,
+  drainService,
+  storage,
+}));
+
+// Start server
+async function start() {
+  // Fail fast if a provider key (e.g. a remote signer) does not sign as its address
+  await drainService.verifySigners();
+
+  await catalog.refresh();
+  catalog.startAutoRefresh(config.pricingRefreshInterval);
+  
+  // Rebuild channel watermarks from the chain before serving them
+  drainService.startReconciliation();
+
+  // Start auto-claim on the AUTO_CLAIM_* policy (default: every 10 min, channels expiring within 1 hour)
+  drainService.startAutoClaim();
+
+  // Track channel opens, deposits, claims and closes from contract events
+  drainService.watchChannelEvents();
+  
+  app.listen(config.port, config.host, () => {
+    console.log(`HS58-Gateway | ${adapters.map(a => a.name).join(', ')} | ${catalog.getSupportedModels().length} models | ${(config.markup - 1) * 100}% markup | http://${config.host}:${config.port}`);
+    console.log(`Auto-claim active: checking every ${drainService.getAutoClaimStatus().policy?.intervalMinutes}min (see /v1/admin/auto-claim)`);
+  });
+}
+
+start().catch(e => { console.error('❌', e.message); process.exit(1); });
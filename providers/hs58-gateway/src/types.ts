@@ -0,0 +1,23 @@
+/**
+ * HS58-Gateway Provider Types
+ */
+
+import type { DrainConfig } from '@handshake58/drain-provider-core';
+
+/**
+ * Upstream backends the gateway can host
+ */
+export type BackendId = 'openai' | 'anthropic' | 'xai' | 'openrouter' | 'chutes';
+
+/**
+ * Provider configuration
+ */
+export interface ProviderConfig extends DrainConfig {
+  /** API keys of enabled backends, in routing priority order */
+  backends: Array<{ id: BackendId; apiKey: string }>;
+  port: number;
+  host: string;
+  pricingRefreshInterval: number;
+  markup: number;
+  marketplaceUrl: string;
+}